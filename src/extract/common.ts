@@ -0,0 +1,62 @@
+// Tipos, limites e utilitários de bytes compartilhados pelos extratores de documentos
+
+// Tamanho máximo do arquivo recebido
+export const DOC_MAX_BYTES = 15 * 1024 * 1024;
+// Teto do que um stream comprimido (PDF FlateDecode, entrada de ZIP) pode gerar: barra "zip bombs"
+export const DOC_MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+export type ExtractedDocument = {
+	format: 'pdf' | 'docx' | 'text';
+	// Texto por página (só PDF); DOCX informa apenas a contagem salva pelo editor
+	pages: string[] | null;
+	pageCount: number | null;
+	text: string;
+};
+
+// Arquivo com a assinatura de um formato suportado, mas com estrutura inválida (truncado, offsets fora do arquivo,
+// limites estourados). Os handlers respondem 400; formato não suportado continua sendo 415.
+export class MalformedDocumentError extends Error {
+	constructor(detail: string) {
+		super(detail);
+		this.name = 'MalformedDocumentError';
+	}
+}
+
+export const bytesToLatin1 = (bytes: Uint8Array) => {
+	let out = '';
+	for (let i = 0; i < bytes.length; i += 8192) out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+	return out;
+};
+export const latin1ToBytes = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0) & 0xff);
+
+// Descomprime até `maxBytes` (total, somado entre chamadas que compartilham o mesmo `budget`)
+export async function inflateBytes(
+	bytes: Uint8Array,
+	format: 'deflate' | 'deflate-raw',
+	budget: { remaining: number } = { remaining: DOC_MAX_INFLATED_BYTES }
+): Promise<Uint8Array> {
+	const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+	const parts: Uint8Array[] = [];
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			budget.remaining -= value.length;
+			if (budget.remaining < 0) {
+				await reader.cancel().catch(() => {});
+				throw new MalformedDocumentError('Decompressed content exceeds the size limit');
+			}
+			parts.push(value);
+		}
+	} catch (e) {
+		if (e instanceof MalformedDocumentError) throw e;
+		// Streams truncados ou com lixo no fim são comuns em PDFs: fica com o que já foi descomprimido
+	}
+	const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+	let offset = 0;
+	for (const p of parts) {
+		out.set(p, offset);
+		offset += p.length;
+	}
+	return out;
+}
@@ -0,0 +1,39 @@
+import type { ExtractedDocument } from './common';
+import { readZipEntries } from './zip';
+
+// Referência numérica fora do Unicode (ex.: &#99999999;) vira vazio em vez de RangeError
+const codePoint = (n: number) => (n <= 0x10ffff ? String.fromCodePoint(n) : '');
+
+const decodeXmlEntities = (s: string) =>
+	s
+		.replace(/&#x([0-9a-fA-F]+);/g, (_, h) => codePoint(parseInt(h, 16)))
+		.replace(/&#(\d+);/g, (_, d) => codePoint(Number(d)))
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&');
+
+// null quando o ZIP não é um DOCX (sem word/document.xml)
+export async function extractDocx(bytes: Uint8Array): Promise<ExtractedDocument | null> {
+	const entries = readZipEntries(bytes);
+	const document = entries.get('word/document.xml');
+	if (!document) return null;
+	const xml = new TextDecoder().decode(await document());
+	const text = decodeXmlEntities(
+		xml
+			.replace(/<w:tab\/>/g, '\t')
+			.replace(/<w:br[^>]*\/>/g, '\n')
+			.replace(/<\/w:tc>/g, '\t')
+			.replace(/<\/w:p>/g, '\n')
+			.replace(/<[^>]+>/g, '')
+	)
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+	// A contagem de páginas é só informativa: app.xml quebrado não invalida o documento
+	const app = entries.get('docProps/app.xml');
+	const appXml = app ? await app().then((b) => new TextDecoder().decode(b), () => '') : '';
+	const pageCount = Number(appXml.match(/<Pages>(\d+)<\/Pages>/)?.[1]) || null;
+	return { format: 'docx', pages: null, pageCount, text };
+}
@@ -0,0 +1,21 @@
+// ---------- Extração de documentos (PDF/DOCX) ----------
+// Extratores mínimos, sem dependências: PDF (streams FlateDecode, object streams e fontes com ToUnicode)
+// e DOCX (ZIP + word/document.xml). PDF escaneado (só imagem) não tem texto extraível.
+import { bytesToLatin1, type ExtractedDocument } from './common';
+import { extractDocx } from './docx';
+import { extractPdf } from './pdf';
+
+export { DOC_MAX_BYTES, MalformedDocumentError, bytesToLatin1, latin1ToBytes, type ExtractedDocument } from './common';
+
+// Formato pelo conteúdo (assinatura), com content-type e nome do arquivo como apoio.
+// null = formato não suportado; MalformedDocumentError = formato reconhecido, arquivo inválido.
+export async function extractDocument(bytes: Uint8Array, contentType = '', filename = ''): Promise<ExtractedDocument | null> {
+	const head = bytesToLatin1(bytes.subarray(0, 5));
+	if (head.startsWith('%PDF')) return extractPdf(bytes);
+	if (head.startsWith('PK\x03\x04')) return extractDocx(bytes);
+	if (contentType.startsWith('text/') || /\.(txt|md|csv)$/i.test(filename)) {
+		const text = new TextDecoder().decode(bytes);
+		return { format: 'text', pages: null, pageCount: null, text };
+	}
+	return null;
+}
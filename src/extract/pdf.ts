@@ -0,0 +1,302 @@
+import {
+	DOC_MAX_BYTES,
+	DOC_MAX_INFLATED_BYTES,
+	MalformedDocumentError,
+	bytesToLatin1,
+	inflateBytes,
+	latin1ToBytes,
+	type ExtractedDocument,
+} from './common';
+
+// Limites contra arquivos forjados: árvore de páginas profunda demais e CMaps que expandem sem fim
+const PDF_MAX_PAGES = 2000;
+const PDF_MAX_TREE_DEPTH = 64;
+const PDF_MAX_CMAP_ENTRIES = 65_536;
+
+type PdfObject = { dict: string; stream?: string };
+type PdfFont = { cmap?: Map<string, string>; codeBytes: number };
+
+// Cabeçalho "n g obj" com números limitados; o corpo vai até o próximo endobj, achado com indexOf a partir do
+// cabeçalho. Sem endobj adiante não há mais objetos completos: a varredura para em vez de reler o resto do arquivo
+function parsePdfObjects(raw: string): Map<number, PdfObject> {
+	const objects = new Map<number, PdfObject>();
+	const header = /(\d{1,10})\s+\d{1,5}\s+obj\b/g;
+	for (let m; (m = header.exec(raw)); ) {
+		const close = raw.indexOf('endobj', header.lastIndex);
+		if (close < 0) break;
+		const body = raw.slice(header.lastIndex, close);
+		header.lastIndex = close + 'endobj'.length;
+		const at = body.search(/\bstream\r?\n/);
+		if (at < 0) {
+			objects.set(Number(m[1]), { dict: body });
+			continue;
+		}
+		const end = body.lastIndexOf('endstream');
+		const stream = body.slice(body.indexOf('\n', at) + 1, end < 0 ? undefined : end).replace(/\r?\n$/, '');
+		objects.set(Number(m[1]), { dict: body.slice(0, at), stream });
+	}
+	return objects;
+}
+
+// Valor de /Key num dicionário: referência "n 0 R", dicionário/array aninhado ou token simples
+function pdfEntry(dict: string, key: string): string | undefined {
+	const m = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+	if (!m) return undefined;
+	const rest = dict.slice(m.index + m[0].length);
+	const ref = rest.match(/^\d+\s+\d+\s+R/);
+	if (ref) return ref[0];
+	const [open, close] = rest.startsWith('<<') ? ['<<', '>>'] : rest.startsWith('[') ? ['[', ']'] : [];
+	if (open && close) {
+		let depth = 0;
+		for (let i = 0; i < rest.length; i++) {
+			if (rest.startsWith(open, i)) depth++;
+			else if (rest.startsWith(close, i) && --depth === 0) return rest.slice(0, i + close.length);
+		}
+		return rest;
+	}
+	return rest.match(/^\/?[^\s/<>[\]()]+/)?.[0];
+}
+
+const pdfRefNumber = (value?: string) => {
+	const m = value?.match(/^(\d+)\s+\d+\s+R$/);
+	return m ? Number(m[1]) : undefined;
+};
+
+async function decodePdfStream(obj: PdfObject | undefined, budget: { remaining: number }): Promise<string | null> {
+	if (obj?.stream === undefined) return null;
+	const filters = (pdfEntry(obj.dict, 'Filter') ?? '').match(/\/\w+/g) ?? [];
+	// Imagens (DCTDecode etc.) e filtros não suportados ficam de fora
+	if (filters.some((f) => f !== '/FlateDecode')) return null;
+	let data: Uint8Array = latin1ToBytes(obj.stream);
+	for (let i = 0; i < filters.length; i++) data = await inflateBytes(data, 'deflate', budget);
+	return bytesToLatin1(data);
+}
+
+function utf16beToString(bytes: string): string {
+	let out = '';
+	for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+	return out;
+}
+
+const hexToLatin1 = (hex: string) => {
+	const clean = hex.replace(/[^0-9a-fA-F]/g, '');
+	let out = '';
+	for (let i = 0; i < clean.length; i += 2) out += String.fromCharCode(parseInt(clean.slice(i, i + 2).padEnd(2, '0'), 16));
+	return out;
+};
+
+// CMap ToUnicode: código (hex maiúsculo) → texto
+function parseToUnicode(cmap: string): PdfFont {
+	const map = new Map<string, string>();
+	let codeBytes = 1;
+	const dst = (hex: string) => utf16beToString(hexToLatin1(hex));
+	for (const block of cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) ?? []) {
+		for (const [, src, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+			map.set(src.toUpperCase(), dst(target));
+			codeBytes = Math.max(codeBytes, src.length / 2);
+		}
+	}
+	for (const block of cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) ?? []) {
+		for (const [, lo, hi, rest] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+			const from = parseInt(lo, 16);
+			const to = Math.min(parseInt(hi, 16), from + 0xffff);
+			const targets = rest.startsWith('[') ? [...rest.matchAll(/<([0-9a-fA-F]*)>/g)].map((t) => t[1]) : null;
+			const base = targets ? 0 : parseInt(rest.slice(1, -1) || '0', 16);
+			if (map.size + to - from >= PDF_MAX_CMAP_ENTRIES) throw new MalformedDocumentError('PDF ToUnicode map is too large');
+			for (let code = from; code <= to; code++) {
+				const key = code.toString(16).toUpperCase().padStart(lo.length, '0');
+				map.set(key, targets ? dst(targets[code - from] ?? '') : String.fromCharCode(base + code - from));
+			}
+			codeBytes = Math.max(codeBytes, lo.length / 2);
+		}
+	}
+	return { cmap: map, codeBytes };
+}
+
+function decodePdfString(bytes: string, font?: PdfFont): string {
+	if (bytes.startsWith('\xfe\xff')) return utf16beToString(bytes.slice(2));
+	if (!font?.cmap?.size) return bytes;
+	let out = '';
+	for (let i = 0; i < bytes.length; i += font.codeBytes) {
+		const code = [...bytes.slice(i, i + font.codeBytes)].map((c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('').toUpperCase();
+		out += font.cmap.get(code) ?? '';
+	}
+	return out;
+}
+
+// Lê os operadores de texto (Tj, TJ, ', ", Td, T*, Tm) de um content stream
+function pdfContentText(content: string, fonts: Map<string, PdfFont>): string {
+	let out = '';
+	let font: PdfFont | undefined;
+	let operands: (string | number | { str: string } | (number | { str: string })[])[] = [];
+	let array: (number | { str: string })[] | null = null;
+	let lastY: number | undefined;
+	const push = (v: number | { str: string } | string) => {
+		if (array && typeof v !== 'string') array.push(v);
+		else operands.push(v);
+	};
+	const newline = () => {
+		if (out && !out.endsWith('\n')) out += '\n';
+	};
+	const space = () => {
+		if (out && !/\s$/.test(out)) out += ' ';
+	};
+	const show = (s: { str: string }) => (out += decodePdfString(s.str, font));
+
+	let i = 0;
+	while (i < content.length) {
+		const c = content[i];
+		if (/\s/.test(c)) {
+			i++;
+		} else if (c === '%') {
+			while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+		} else if (c === '(') {
+			let depth = 1;
+			let str = '';
+			i++;
+			while (i < content.length && depth > 0) {
+				const ch = content[i++];
+				if (ch === '\\') {
+					const next = content[i++];
+					const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+					if (/[0-7]/.test(next)) {
+						let oct = next;
+						while (oct.length < 3 && /[0-7]/.test(content[i])) oct += content[i++];
+						str += String.fromCharCode(parseInt(oct, 8) & 0xff);
+					} else if (next === '\r' || next === '\n') {
+						if (next === '\r' && content[i] === '\n') i++;
+					} else str += escapes[next] ?? next;
+				} else if (ch === '(') {
+					depth++;
+					str += ch;
+				} else if (ch === ')') {
+					if (--depth > 0) str += ch;
+				} else str += ch;
+			}
+			push({ str });
+		} else if (c === '<' && content[i + 1] !== '<') {
+			const end = content.indexOf('>', i);
+			push({ str: hexToLatin1(content.slice(i + 1, end < 0 ? undefined : end)) });
+			i = end < 0 ? content.length : end + 1;
+		} else if (c === '[') {
+			array = [];
+			i++;
+		} else if (c === ']') {
+			if (array) operands.push(array);
+			array = null;
+			i++;
+		} else if (c === '<' || c === '>' || c === '{' || c === '}' || c === ')') {
+			i++;
+		} else {
+			const token = content.slice(i).match(/^\/?[^\s/<>[\]()%{}]+|^\//)![0];
+			i += token.length;
+			if (token.startsWith('/')) push(token);
+			else if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) push(Number(token));
+			else {
+				const num = (k: number) => Number(operands[operands.length - k]);
+				if (token === 'Tf') font = fonts.get(String(operands[operands.length - 2]).slice(1));
+				else if (token === 'Tj' || token === "'" || token === '"') {
+					if (token !== 'Tj') newline();
+					const s = operands[operands.length - 1];
+					if (s && typeof s === 'object' && 'str' in s) show(s);
+				} else if (token === 'TJ') {
+					const items = operands[operands.length - 1];
+					// Espaçamento grande entre glifos (em milésimos de em) equivale a um espaço
+					if (Array.isArray(items)) for (const item of items) typeof item === 'number' ? item < -200 && space() : show(item);
+				} else if (token === 'Td' || token === 'TD') {
+					if (num(1) !== 0) newline();
+					else space();
+				} else if (token === 'T*') newline();
+				else if (token === 'Tm') {
+					if (lastY !== undefined && num(1) !== lastY) newline();
+					else space();
+					lastY = num(1);
+				} else if (token === 'ET') space();
+				else if (token === 'ID') {
+					// Imagem inline: pula os bytes até EI
+					const end = content.indexOf('EI', i);
+					i = end < 0 ? content.length : end + 2;
+				}
+				operands = [];
+			}
+		}
+	}
+	return out
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+export async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+	if (bytes.length > DOC_MAX_BYTES) throw new MalformedDocumentError(`PDF exceeds ${DOC_MAX_BYTES} bytes`);
+	const objects = parsePdfObjects(bytesToLatin1(bytes));
+	if (objects.size === 0) throw new MalformedDocumentError('No PDF objects found');
+	// Todos os streams do arquivo dividem um só teto de descompressão
+	const budget = { remaining: DOC_MAX_INFLATED_BYTES };
+	// Object streams (PDF 1.5+) guardam dicionários de páginas e fontes comprimidos
+	for (const obj of [...objects.values()]) {
+		if (!/\/Type\s*\/ObjStm/.test(obj.dict)) continue;
+		const data = await decodePdfStream(obj, budget);
+		if (!data) continue;
+		const first = Number(pdfEntry(obj.dict, 'First') ?? 0);
+		const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+		for (let i = 0; i + 1 < header.length; i += 2) {
+			const end = i + 3 < header.length ? first + header[i + 3] : data.length;
+			if (!objects.has(header[i])) objects.set(header[i], { dict: data.slice(first + header[i + 1], end) });
+		}
+	}
+	const deref = (value?: string) => {
+		const n = pdfRefNumber(value);
+		return n === undefined ? value : objects.get(n)?.dict;
+	};
+
+	// Páginas na ordem da árvore /Pages, com /Resources herdado
+	const pages: { dict: string; resources?: string }[] = [];
+	const seen = new Set<number>();
+	const walk = (ref: string | undefined, inherited?: string, depth = 0) => {
+		const n = pdfRefNumber(ref);
+		if (n === undefined || seen.has(n)) return;
+		if (depth > PDF_MAX_TREE_DEPTH) throw new MalformedDocumentError('PDF page tree is too deep');
+		seen.add(n);
+		const node = objects.get(n);
+		if (!node) return;
+		const resources = deref(pdfEntry(node.dict, 'Resources')) ?? inherited;
+		if (/\/Type\s*\/Pages\b/.test(node.dict)) {
+			for (const kid of pdfEntry(node.dict, 'Kids')?.match(/\d+\s+\d+\s+R/g) ?? []) walk(kid, resources, depth + 1);
+		} else if (pages.push({ dict: node.dict, resources }) > PDF_MAX_PAGES) {
+			throw new MalformedDocumentError('PDF has too many pages');
+		}
+	};
+	const catalog = [...objects.values()].find((o) => /\/Type\s*\/Catalog/.test(o.dict));
+	walk(catalog && pdfEntry(catalog.dict, 'Pages'));
+	if (pages.length === 0) {
+		for (const obj of objects.values()) if (/\/Type\s*\/Page(?![a-zA-Z])/.test(obj.dict)) pages.push({ dict: obj.dict });
+		if (pages.length > PDF_MAX_PAGES) throw new MalformedDocumentError('PDF has too many pages');
+	}
+
+	const fontCache = new Map<number, PdfFont>();
+	const pageFonts = async (resources?: string) => {
+		const fonts = new Map<string, PdfFont>();
+		const fontDict = resources && deref(pdfEntry(resources, 'Font'));
+		for (const [, name, ref] of fontDict?.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+\s+\d+\s+R)/g) ?? []) {
+			const n = pdfRefNumber(ref)!;
+			if (!fontCache.has(n)) {
+				const cmapObj = objects.get(pdfRefNumber(pdfEntry(objects.get(n)?.dict ?? '', 'ToUnicode')) ?? -1);
+				const cmap = await decodePdfStream(cmapObj, budget);
+				fontCache.set(n, cmap ? parseToUnicode(cmap) : { codeBytes: 1 });
+			}
+			fonts.set(name, fontCache.get(n)!);
+		}
+		return fonts;
+	};
+
+	const texts: string[] = [];
+	for (const page of pages) {
+		const contents = pdfEntry(page.dict, 'Contents') ?? '';
+		const refs = contents.match(/\d+\s+\d+\s+R/g) ?? [];
+		const streams = await Promise.all(refs.map((ref) => decodePdfStream(objects.get(pdfRefNumber(ref)!), budget)));
+		texts.push(pdfContentText(streams.filter(Boolean).join('\n'), await pageFonts(page.resources)));
+	}
+	return { format: 'pdf', pages: texts, pageCount: pages.length, text: texts.join('\n\n') };
+}
+
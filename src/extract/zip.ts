@@ -0,0 +1,52 @@
+import { DOC_MAX_INFLATED_BYTES, MalformedDocumentError, inflateBytes } from './common';
+
+// DOCX real tem dezenas de entradas; milhares indicam arquivo forjado
+const ZIP_MAX_ENTRIES = 2000;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// Entradas de um ZIP pelo diretório central (DOCX é um ZIP de XMLs). Todo offset lido do arquivo é conferido
+// contra o tamanho real antes do uso; o conteúdo descomprimido de todas as entradas divide um só teto.
+export function readZipEntries(bytes: Uint8Array): Map<string, () => Promise<Uint8Array>> {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const fits = (offset: number, length: number) => offset >= 0 && length >= 0 && offset + length <= bytes.length;
+	const entries = new Map<string, () => Promise<Uint8Array>>();
+	const budget = { remaining: DOC_MAX_INFLATED_BYTES };
+
+	let eocd = -1;
+	for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+		if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+			eocd = i;
+			break;
+		}
+	}
+	if (eocd < 0) throw new MalformedDocumentError('ZIP end of central directory not found');
+
+	const count = view.getUint16(eocd + 10, true);
+	if (count > ZIP_MAX_ENTRIES) throw new MalformedDocumentError(`ZIP has too many entries (${count})`);
+	let p = view.getUint32(eocd + 16, true);
+	for (let n = 0; n < count; n++) {
+		if (!fits(p, 46) || view.getUint32(p, true) !== CENTRAL_SIGNATURE) throw new MalformedDocumentError('ZIP central directory is truncated');
+		const method = view.getUint16(p + 10, true);
+		const size = view.getUint32(p + 20, true);
+		const nameLength = view.getUint16(p + 28, true);
+		const local = view.getUint32(p + 42, true);
+		if (!fits(p + 46, nameLength)) throw new MalformedDocumentError('ZIP entry name is out of bounds');
+		const name = new TextDecoder().decode(bytes.subarray(p + 46, p + 46 + nameLength));
+		p += 46 + nameLength + view.getUint16(p + 30, true) + view.getUint16(p + 32, true);
+		entries.set(name, async () => {
+			if (!fits(local, 30) || view.getUint32(local, true) !== LOCAL_SIGNATURE) {
+				throw new MalformedDocumentError(`ZIP local header for ${name} is out of bounds`);
+			}
+			const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+			if (!fits(start, size)) throw new MalformedDocumentError(`ZIP entry ${name} is truncated`);
+			const data = bytes.subarray(start, start + size);
+			if (method === 0) return data;
+			if (method === 8) return inflateBytes(data, 'deflate-raw', budget);
+			throw new MalformedDocumentError(`ZIP entry ${name} uses unsupported compression method ${method}`);
+		});
+	}
+	return entries;
+}
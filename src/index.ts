@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { DOC_MAX_BYTES, MalformedDocumentError, bytesToLatin1, extractDocument, latin1ToBytes, type ExtractedDocument } from './extract';
 
 // Define a interface para as variáveis de ambiente para ter tipagem segura
 export interface Env {
@@ -10,6 +11,49 @@ export interface Env {
 	N8N_API_KEY: string;
 	// Opcional: URL do endpoint Weburn para buscar programas
 	WEBURN_API_URL?: string;
+	// WhatsApp Cloud API (webhook nativo em /webhooks/whatsapp)
+	WHATSAPP_VERIFY_TOKEN?: string;
+	WHATSAPP_APP_SECRET?: string;
+	// Opcional: token da Cloud API para baixar as mídias recebidas (sem ele, mídia entra no turno como "[Imagem enviada]" etc.)
+	WHATSAPP_ACCESS_TOKEN?: string;
+	// JSON com os clientes autorizados a chamar o Worker (ver "Autenticação de clientes")
+	API_CLIENTS?: string;
+	// Opcional: hora local (0-23) a partir da qual o lembrete de treino é enviado (padrão 7)
+	TRAINING_REMINDER_HOUR?: string;
+	// Opcionais: cadências (dias) e limite de follow-ups sem resposta por usuário
+	FOLLOWUP_INACTIVITY_DAYS?: string;
+	FOLLOWUP_APP_CHECK_DAYS?: string;
+	FOLLOWUP_MAX_PER_USER?: string;
+	// Opcional: hora local (0-23) a partir da qual o resumo semanal de progresso sai aos domingos (padrão 19)
+	WEEKLY_PROGRESS_HOUR?: string;
+	// Opcional: backend da base de conhecimento ('pgvector' padrão, 'memory' para dev/testes)
+	KNOWLEDGE_STORE?: 'pgvector' | 'memory';
+	// Opcional: ferramentas extras do n8n (JSON; ver "Registro de ferramentas do agente")
+	N8N_TOOLS?: string;
+	// Opcionais: orçamento do loop do agente (rodadas de ferramentas e tempo total em ms)
+	AGENT_MAX_STEPS?: string;
+	AGENT_TIME_BUDGET_MS?: string;
+	// Opcional: fila de reenvio (DLQ) para mensagens que falharam após os retries imediatos
+	OUTBOUND_QUEUE?: Queue<OutboundMessage>;
+	// Opcionais: tentativas imediatas por envio (padrão 3) e timeout por tentativa em ms (padrão 8000)
+	OUTBOUND_MAX_ATTEMPTS?: string;
+	OUTBOUND_TIMEOUT_MS?: string;
+	// Opcional: Durable Object que serializa os turnos de cada conversa (sem binding, lock local ao isolate)
+	CONVERSATION_LOCK?: DurableObjectNamespace;
+	// Opcional: janela de silêncio (ms) para juntar rajadas de mensagens num só turno (0 desliga)
+	INBOUND_DEBOUNCE_MS?: string;
+	// Opcionais: orçamento de tokens do histórico no contexto (padrão 3000) e tamanho máximo do resumo (padrão 400)
+	CONTEXT_TOKEN_BUDGET?: string;
+	CONTEXT_SUMMARY_MAX_TOKENS?: string;
+	// Opcional: JSON com os tenants além do padrão (ver "Tenants")
+	TENANTS?: string;
+	// Opcional: JSON com provedores e cadeias de modelos por caso de uso (ver "Camada de modelos")
+	MODEL_CONFIG?: string;
+	// Opcionais: tamanho máximo de cada mensagem WhatsApp (padrão 240) e pausa de "digitação" por caractere em ms (padrão 25; 0 desliga)
+	WHATSAPP_CHUNK_MAX_CHARS?: string;
+	WHATSAPP_TYPING_MS_PER_CHAR?: string;
+	// Opcional: template aprovado usado fora da janela de 24h, ex.: {"name":"perso_retomada","language":"pt_BR","textParam":true}
+	WHATSAPP_WINDOW_TEMPLATE?: string;
 }
 
 // Interface para o histórico de conversa do Supabase
@@ -21,7 +65,37 @@ interface ConversationMessage {
 }
 
 // ---------- Helpers (WhatsApp adapter) ----------
-type SendResult = { ok: boolean; message_id?: string; error?: { code: string; detail?: string } };
+type SendResult = { ok: boolean; message_id?: string; queued?: boolean; error?: { code: string; detail?: string } };
+
+type SendOptions = {
+	// Chave estável por mensagem lógica (ex.: conversa + tool call) para o n8n deduplicar retries
+	idempotencyKey?: string;
+	// false no consumidor da fila: a própria fila cuida do reenvio
+	deadLetter?: boolean;
+};
+
+type WhatsAppMediaKind = 'image' | 'video' | 'audio' | 'document';
+type WhatsAppMedia = { id?: string; link?: string; caption?: string; filename?: string };
+type InteractivePayload = {
+	type: string;
+	header?: { type: string; text: string };
+	body: { text: string };
+	footer?: { text: string };
+	action: object;
+};
+
+// Corpo de POST /tool/send-whatsapp no n8n, como as tools o montam (o n8n repassa o payload à Cloud API)
+type OutboundPayload = { to: string } & (
+	| { message_type: 'text'; payload: { text: string; reply_to?: string } }
+	| { message_type: 'interactive'; payload: InteractivePayload }
+	| { message_type: WhatsAppMediaKind; payload: Partial<Record<WhatsAppMediaKind, WhatsAppMedia>> & { reply_to?: string } }
+	| { message_type: 'location'; payload: { latitude: number; longitude: number; name?: string; address?: string } }
+	| { message_type: 'reaction'; payload: { message_id: string; emoji: string } }
+	| { message_type: 'template'; payload: { name: string; language: { code: string }; components?: object[] } }
+);
+
+// Mensagem enfileirada em OUTBOUND_QUEUE quando o envio falha de forma transitória
+type OutboundMessage = { body: OutboundPayload; idempotencyKey: string; traceId: string; tenantId?: string; error?: SendResult['error'] };
 
 const trunc = (s?: string, n = 1024) => (s ?? '').slice(0, n);
 const trunc20 = (s?: string) => trunc(s, 20);
@@ -38,7 +112,7 @@ const normPhone = (to: string) => {
 const trimTrailingSlash = (u?: string) => (u ? u.replace(/\/+$/, '') : u);
 
 async function saveConversationEntries(
-  env: Env,
+  env: TenantEnv,
   conversationId: string,
   entries: { role: 'user' | 'assistant' | 'system'; content: string }[]
 ) {
@@ -58,56 +132,144 @@ async function saveConversationEntries(
   }
 }
 
-async function postToSendWhatsappWebHook(
-	env: Env,
-	body: unknown,
-	traceId: string
-): Promise<SendResult> {
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Backoff exponencial com jitter total (0..base*2^n), limitado a 5s
+const backoffMs = (attempt: number, baseMs = 250) => Math.random() * Math.min(5_000, baseMs * 2 ** attempt);
+
+// 5xx, 429 e erros de rede/timeout valem retry; demais 4xx são falhas permanentes
+const isRetryableSend = (error?: SendResult['error']) =>
+	!error || !error.code.startsWith('HTTP_') || error.code === 'HTTP_429' || error.code.startsWith('HTTP_5');
+
+async function attemptSendWhatsapp(env: TenantEnv, body: OutboundPayload, traceId: string, idempotencyKey: string): Promise<SendResult> {
 	const base = trimTrailingSlash(env.N8N_WEBHOOK_URL);
 	const url = `${base}/tool/send-whatsapp`;
-	const res = await fetch(url, {
-		method: 'POST',
-		headers: {
-			'content-type': 'application/json',
-			'x-idempotency-key': crypto.randomUUID(),
-			'x-trace-id': traceId,
-			// n8n If lê headers em lowercase ($json.headers["x-n8n-api-key"])
-			'x-n8n-api-key': env.N8N_API_KEY,
-		},
-		body: JSON.stringify(body),
-	});
-	if (!res.ok) {
-		const text = await res.text().catch(() => '');
-		return { ok: false, error: { code: `HTTP_${res.status}`, detail: text } };
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort('timeout'), Number(env.OUTBOUND_TIMEOUT_MS ?? 8_000));
+	try {
+		const res = await fetch(url, {
+			method: 'POST',
+			headers: {
+				'content-type': 'application/json',
+				'x-idempotency-key': idempotencyKey,
+				'x-trace-id': traceId,
+				// n8n If lê headers em lowercase ($json.headers["x-n8n-api-key"])
+				'x-n8n-api-key': env.N8N_API_KEY,
+			},
+			body: JSON.stringify(body),
+			signal: controller.signal,
+		});
+		if (!res.ok) {
+			const text = await res.text().catch(() => '');
+			return { ok: false, error: { code: `HTTP_${res.status}`, detail: text } };
+		}
+		return { ok: true };
+	} catch (e: any) {
+		const timedOut = controller.signal.aborted;
+		return { ok: false, error: { code: timedOut ? 'TIMEOUT' : 'NETWORK_ERROR', detail: e?.message || String(e) } };
+	} finally {
+		clearTimeout(timeout);
+	}
+}
+
+// Envio com retries imediatos; se continuar falhando por erro transitório, vai para OUTBOUND_QUEUE
+async function postToSendWhatsappWebHook(
+	env: TenantEnv,
+	body: OutboundPayload,
+	traceId: string,
+	opts: SendOptions = {}
+): Promise<SendResult> {
+	const idempotencyKey = opts.idempotencyKey || crypto.randomUUID();
+
+	// Janela de 24h: fora dela, texto livre vira o template configurado ou é recusado sem chamar o n8n
+	const gate = await applyWhatsAppWindow(env, body, { record: opts.deadLetter !== false });
+	if (gate.error) return { ok: false, error: gate.error };
+	body = gate.body;
+
+	const maxAttempts = Math.max(1, Number(env.OUTBOUND_MAX_ATTEMPTS ?? 3));
+	let result: SendResult = { ok: false };
+	for (let attempt = 0; attempt < maxAttempts; attempt++) {
+		if (attempt > 0) await sleep(backoffMs(attempt));
+		result = await attemptSendWhatsapp(env, body, traceId, idempotencyKey);
+		if (result.ok || !isRetryableSend(result.error)) return result;
+		console.error(`send-whatsapp falhou (tentativa ${attempt + 1}/${maxAttempts}):`, result.error);
+	}
+
+	if (opts.deadLetter !== false && env.OUTBOUND_QUEUE) {
+		try {
+			await env.OUTBOUND_QUEUE.send({ body, idempotencyKey, traceId, tenantId: env.tenant.id, error: result.error });
+			return { ...result, queued: true };
+		} catch (e) {
+			console.error('Erro ao enfileirar envio:', e);
+		}
+	}
+	return result;
+}
+
+// Consumidor da OUTBOUND_QUEUE: reenvia com backoff e registra falhas definitivas no Supabase
+const OUTBOUND_QUEUE_MAX_ATTEMPTS = 5;
+
+async function recordOutboundFailure(env: TenantEnv, msg: Message<OutboundMessage>, error?: SendResult['error']) {
+	console.error('Envio descartado após retries:', msg.body.idempotencyKey, error);
+	if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return;
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const { error: insertError } = await supabase.from('outbound_failures').insert([
+		{
+			idempotency_key: msg.body.idempotencyKey,
+			trace_id: msg.body.traceId,
+			payload: msg.body.body,
+			error: error ?? null,
+			attempts: msg.attempts,
+			failed_at: new Date().toISOString(),
+		},
+	]);
+	if (insertError) console.error('Erro ao registrar outbound_failures:', insertError);
+}
+
+async function consumeOutboundQueue(batch: MessageBatch<OutboundMessage>, env: Env) {
+	for (const msg of batch.messages) {
+		const { body, idempotencyKey, traceId, tenantId } = msg.body;
+		const tenantEnv = envForTenantId(env, tenantId);
+		const sent = await postToSendWhatsappWebHook(tenantEnv, body, traceId, { idempotencyKey, deadLetter: false });
+		if (sent.ok) {
+			msg.ack();
+		} else if (isRetryableSend(sent.error) && msg.attempts < OUTBOUND_QUEUE_MAX_ATTEMPTS) {
+			msg.retry({ delaySeconds: Math.round(30 * 2 ** msg.attempts) });
+		} else {
+			await recordOutboundFailure(tenantEnv, msg, sent.error);
+			msg.ack();
+		}
 	}
-	return { ok: true };
 }
 
 // wrappers para cada tool
 async function tool_send_whatsapp_text(
-	env: Env,
+	env: TenantEnv,
 	args: { to: string; text: string; reply_to?: string },
-	traceId: string
+	traceId: string,
+	opts?: SendOptions
 ) {
 	const payload = {
 		to: normPhone(args.to),
 		message_type: 'text' as const,
 		payload: { text: trunc(args.text), reply_to: args.reply_to },
 	};
-	return postToSendWhatsappWebHook(env, payload, traceId);
+	return postToSendWhatsappWebHook(env, payload, traceId, opts);
 }
 
 async function tool_send_whatsapp_buttons(
-	env: Env,
+	env: TenantEnv,
 	args: {
 		to: string;
 		body: string;
-		buttons: { id: string; text: string }[];
+		buttons: { id: string; text: string; value?: string }[];
 		header?: string;
 		footer?: string;
 	},
-	traceId: string
+	traceId: string,
+	opts?: SendOptions
 ) {
+	const menuId = crypto.randomUUID();
 	const interactive = {
 		type: 'button',
 		header: args.header ? { type: 'text', text: trunc60(args.header) } : undefined,
@@ -116,7 +278,7 @@ async function tool_send_whatsapp_buttons(
 		action: {
 			buttons: (args.buttons || [])
 				.slice(0, 3)
-				.map((b) => ({ type: 'reply', reply: { id: b.id, title: trunc20(b.text) } })),
+				.map((b) => ({ type: 'reply', reply: { id: interactiveReplyId(menuId, b.id), title: trunc20(b.text) } })),
 		},
 	};
 	const body = {
@@ -124,21 +286,28 @@ async function tool_send_whatsapp_buttons(
 		message_type: 'interactive' as const,
 		payload: interactive,
 	};
-	return postToSendWhatsappWebHook(env, body, traceId);
+	const sent = await postToSendWhatsappWebHook(env, body, traceId, opts);
+	if (sent.ok || sent.queued) {
+		const options = (args.buttons || []).slice(0, 3).map((b) => ({ id: b.id, title: trunc20(b.text), value: b.value }));
+		await recordInteractiveMenu(env, menuId, args.to, 'button', args.body, options);
+	}
+	return sent;
 }
 
 async function tool_send_whatsapp_list(
-	env: Env,
+	env: TenantEnv,
 	args: {
 		to: string;
 		body: string;
 		header?: string;
 		footer?: string;
 		button: string;
-		sections: { title: string; rows: { id: string; title: string; description?: string }[] }[];
+		sections: { title: string; rows: { id: string; title: string; description?: string; value?: string }[] }[];
 	},
-	traceId: string
+	traceId: string,
+	opts?: SendOptions
 ) {
+	const menuId = crypto.randomUUID();
 	const interactive = {
 		type: 'list',
 		header: args.header ? { type: 'text', text: trunc60(args.header) } : undefined,
@@ -149,7 +318,7 @@ async function tool_send_whatsapp_list(
 			sections: (args.sections || []).slice(0, 10).map((s) => ({
 				title: trunc24(s.title),
 				rows: (s.rows || []).slice(0, 10).map((r) => ({
-					id: r.id,
+					id: interactiveReplyId(menuId, r.id),
 					title: trunc24(r.title),
 					description: r.description ? trunc72(r.description) : undefined,
 				})),
@@ -161,12 +330,496 @@ async function tool_send_whatsapp_list(
 		message_type: 'interactive' as const,
 		payload: interactive,
 	};
-	return postToSendWhatsappWebHook(env, body, traceId);
+	const sent = await postToSendWhatsappWebHook(env, body, traceId, opts);
+	if (sent.ok || sent.queued) {
+		const options = (args.sections || [])
+			.slice(0, 10)
+			.flatMap((s) => (s.rows || []).slice(0, 10))
+			.map((r) => ({ id: r.id, title: trunc24(r.title), value: r.value }));
+		await recordInteractiveMenu(env, menuId, args.to, 'list', args.body, options);
+	}
+	return sent;
+}
+
+// Mídia por URL pública (link) ou por id de upload na Meta; áudio não aceita legenda e só documento tem filename
+async function tool_send_whatsapp_media(
+	env: TenantEnv,
+	args: { to: string; type: WhatsAppMediaKind; url?: string; media_id?: string; caption?: string; filename?: string; reply_to?: string },
+	traceId: string,
+	opts?: SendOptions
+): Promise<SendResult> {
+	if (!args.url === !args.media_id) {
+		return { ok: false, error: { code: 'INVALID_MEDIA', detail: 'Informe exatamente um entre url e media_id' } };
+	}
+	const payload: Partial<Record<WhatsAppMediaKind, WhatsAppMedia>> & { reply_to?: string } = { reply_to: args.reply_to };
+	payload[args.type] = {
+		...(args.media_id ? { id: args.media_id } : { link: args.url }),
+		caption: args.type !== 'audio' && args.caption ? trunc(args.caption) : undefined,
+		filename: args.type === 'document' && args.filename ? trunc(args.filename, 240) : undefined,
+	};
+	const body: OutboundPayload = { to: normPhone(args.to), message_type: args.type, payload };
+	return postToSendWhatsappWebHook(env, body, traceId, opts);
+}
+
+// Botão de link (ex.: abrir o app Weburn)
+async function tool_send_whatsapp_cta_url(
+	env: TenantEnv,
+	args: { to: string; body: string; button_text: string; url: string; header?: string; footer?: string },
+	traceId: string,
+	opts?: SendOptions
+) {
+	const interactive = {
+		type: 'cta_url',
+		header: args.header ? { type: 'text', text: trunc60(args.header) } : undefined,
+		body: { text: trunc(args.body) },
+		footer: args.footer ? { text: trunc60(args.footer) } : undefined,
+		action: { name: 'cta_url', parameters: { display_text: trunc20(args.button_text), url: args.url } },
+	};
+	const body = {
+		to: normPhone(args.to),
+		message_type: 'interactive' as const,
+		payload: interactive,
+	};
+	return postToSendWhatsappWebHook(env, body, traceId, opts);
+}
+
+async function tool_send_whatsapp_location(
+	env: TenantEnv,
+	args: { to: string; latitude: number; longitude: number; name?: string; address?: string },
+	traceId: string,
+	opts?: SendOptions
+) {
+	const body = {
+		to: normPhone(args.to),
+		message_type: 'location' as const,
+		payload: {
+			latitude: args.latitude,
+			longitude: args.longitude,
+			name: args.name ? trunc(args.name, 100) : undefined,
+			address: args.address ? trunc(args.address, 300) : undefined,
+		},
+	};
+	return postToSendWhatsappWebHook(env, body, traceId, opts);
+}
+
+// A Meta aceita um único emoji por reação (inclui sequências com ZWJ, tom de pele e bandeiras)
+const firstEmoji = (s?: string) =>
+	(s || '').trim().match(/^(?:\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic}\uFE0F?)*)/u)?.[0] ?? '';
+
+// Reação a uma mensagem recebida; emoji vazio remove a reação
+async function tool_send_whatsapp_reaction(
+	env: TenantEnv,
+	args: { to: string; message_id: string; emoji: string },
+	traceId: string,
+	opts?: SendOptions
+) {
+	const body = {
+		to: normPhone(args.to),
+		message_type: 'reaction' as const,
+		payload: { message_id: args.message_id, emoji: firstEmoji(args.emoji) },
+	};
+	return postToSendWhatsappWebHook(env, body, traceId, opts);
+}
+
+// Template aprovado na Meta (necessário fora da janela de 24h); variáveis na ordem {{1}}, {{2}}...
+async function tool_send_whatsapp_template(
+	env: TenantEnv,
+	args: { to: string; name: string; language?: string; header_params?: string[]; body_params?: string[]; button_url_params?: string[] },
+	traceId: string,
+	opts?: SendOptions
+) {
+	const textParams = (values: string[] | undefined, n: number) => (values || []).map((v) => ({ type: 'text', text: trunc(String(v), n) }));
+	const components: object[] = [
+		...(args.header_params?.length ? [{ type: 'header', parameters: textParams(args.header_params, 60) }] : []),
+		...(args.body_params?.length ? [{ type: 'body', parameters: textParams(args.body_params, 1024) }] : []),
+		// Sufixo dinâmico de cada botão de URL, pelo índice do botão no template
+		...(args.button_url_params || []).map((v, index) => ({ type: 'button', sub_type: 'url', index: String(index), parameters: textParams([v], 2000) })),
+	];
+	const body = {
+		to: normPhone(args.to),
+		message_type: 'template' as const,
+		payload: {
+			name: trunc(args.name, 512),
+			language: { code: args.language || 'pt_BR' },
+			components: components.length ? components : undefined,
+		},
+	};
+	return postToSendWhatsappWebHook(env, body, traceId, opts);
+}
+
+// ---------- Formatação e divisão de mensagens WhatsApp ----------
+// Substitui a cadeia LLM + output parser do n8n: Markdown vira a formatação do WhatsApp e a resposta
+// é quebrada em mensagens curtas, como uma pessoa digitando.
+function markdownToWhatsApp(text: string): string {
+	return (
+		text
+			.replace(/\r\n/g, '\n')
+			// [texto](url) → texto: url (o WhatsApp só reconhece a URL crua)
+			.replace(/\[([^\]]+)\]\((\S+?)\)/g, (_, label: string, url: string) => (label === url ? url : `${label}: ${url}`))
+			// Títulos viram negrito
+			.replace(/^#{1,6}[ \t]+(.+?)[ \t]*#*$/gm, '**$1**')
+			// Itens de lista com -, * ou + viram •
+			.replace(/^([ \t]*)[-*+][ \t]+/gm, '$1• ')
+			// Separadores horizontais (---, ***) somem
+			.replace(/^[ \t]*([-*_])\1{2,}[ \t]*$/gm, '')
+			// Itálico *x* → _x_ (antes do negrito, que também usa *)
+			.replace(/(^|[^*])\*(?![*\s])([^*\n]*?[^*\s])\*(?!\*)/g, '$1_$2_')
+			// Negrito **x** / __x__ → *x*; tachado ~~x~~ → ~x~
+			.replace(/\*\*([^*\n]+?)\*\*/g, (_, t: string) => `*${t.trim()}*`)
+			.replace(/__([^_\n]+?)__/g, (_, t: string) => `*${t.trim()}*`)
+			.replace(/~~([^~\n]+?)~~/g, '~$1~')
+			.replace(/\n{3,}/g, '\n\n')
+			.trim()
+	);
+}
+
+// Quebra um trecho em pedaços de até max caracteres: por linhas, depois frases, depois palavras
+function fitMessageChunks(text: string, max: number): string[] {
+	if (text.length <= max) return [text];
+	const boundaries: [RegExp, string][] = [
+		[/\n+/, '\n'],
+		[/(?<=[.!?…;:])\s+/, ' '],
+		[/\s+/, ' '],
+	];
+	for (const [pattern, sep] of boundaries) {
+		const units = text
+			.split(pattern)
+			.map((u) => u.trim())
+			.filter(Boolean);
+		if (units.length < 2) continue;
+		const chunks: string[] = [];
+		let current = '';
+		for (const unit of units.flatMap((u) => fitMessageChunks(u, max))) {
+			if (current && current.length + sep.length + unit.length <= max) current += sep + unit;
+			else {
+				if (current) chunks.push(current);
+				current = unit;
+			}
+		}
+		if (current) chunks.push(current);
+		return chunks;
+	}
+	// Uma "palavra" maior que o limite (ex.: URL enorme): corte seco
+	const chunks: string[] = [];
+	for (let i = 0; i < text.length; i += max) chunks.push(text.slice(i, i + max));
+	return chunks;
+}
+
+// Resposta do agente → mensagens WhatsApp (uma por parágrafo, cada uma com até WHATSAPP_CHUNK_MAX_CHARS)
+function toWhatsAppMessages(env: TenantEnv, text: string): string[] {
+	const max = Math.max(20, Number(env.WHATSAPP_CHUNK_MAX_CHARS ?? 240));
+	return markdownToWhatsApp(text)
+		.split(/\n\s*\n/)
+		.map((p) => p.trim())
+		.filter(Boolean)
+		.flatMap((p) => fitMessageChunks(p, max))
+		.filter((c) => c.trim().length > 0);
+}
+
+// Pausa antes de cada mensagem seguinte, proporcional ao tamanho (limitada a 4s)
+const typingDelayMs = (env: TenantEnv, text: string) => Math.min(4_000, text.length * Math.max(0, Number(env.WHATSAPP_TYPING_MS_PER_CHAR ?? 25)));
+
+// Teto da soma das pausas de uma resposta: a entrega roda em waitUntil, que tem prazo, e uma resposta
+// longa quebrada em muitas mensagens perderia as últimas. Acima do teto, todas encolhem na mesma proporção.
+const TYPING_TOTAL_MAX_MS = 6_000;
+
+function typingDelays(env: TenantEnv, messages: string[]): number[] {
+	const delays = messages.map((text, i) => (i === 0 ? 0 : typingDelayMs(env, text)));
+	const total = delays.reduce((sum, d) => sum + d, 0);
+	const scale = total > TYPING_TOTAL_MAX_MS ? TYPING_TOTAL_MAX_MS / total : 1;
+	return delays.map((d) => Math.round(d * scale));
+}
+
+// Envia as mensagens em ordem pelo send-whatsapp; chave de idempotência por mensagem (prefixo:índice).
+// Para no primeiro envio que falhar sem ir para a fila, para não entregar a conversa fora de ordem.
+async function sendWhatsAppMessages(
+	env: TenantEnv,
+	to: string,
+	messages: string[],
+	traceId: string,
+	opts: { idempotencyPrefix: string; replyTo?: string }
+): Promise<{ sent: number; error?: SendResult['error'] }> {
+	let sent = 0;
+	const delays = typingDelays(env, messages);
+	for (const [i, text] of messages.entries()) {
+		if (delays[i] > 0) await sleep(delays[i]);
+		const result = await tool_send_whatsapp_text(env, { to, text, reply_to: i === 0 ? opts.replyTo : undefined }, traceId, {
+			idempotencyKey: `${opts.idempotencyPrefix}:${i}`,
+		});
+		if (!result.ok && !result.queued) return { sent, error: result.error };
+		sent++;
+	}
+	return { sent };
+}
+
+// ---------- Menus interativos (botões/listas) e respostas ----------
+// Cada menu enviado fica em interactive_menus com as opções e o valor canônico de cada uma; o toque do
+// usuário (button_reply/list_reply) volta como escolha estruturada em vez de texto solto.
+// Um toque vale para o menu mais recente do contato enviado há menos de INTERACTIVE_MENU_TTL_MS.
+const INTERACTIVE_MENU_TTL_MS = 24 * 60 * 60 * 1000;
+// Limite da Meta para o id da linha de lista (botões aceitam 256)
+const INTERACTIVE_REPLY_ID_MAX = 200;
+
+// O id que vai no botão/linha é "<menu_id>:<id da opção>": o modelo repete ids como "1" ou "opt_sim"
+// entre menus, então o toque aponta o menu exato em vez de procurar a opção pelo id
+const interactiveReplyId = (menuId: string, optionId: string) => trunc(`${menuId}:${optionId}`, INTERACTIVE_REPLY_ID_MAX);
+
+function parseInteractiveReplyId(raw: string): { menuId?: string; optionId: string } {
+	const match = raw.match(/^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}):([^]*)$/);
+	return match ? { menuId: match[1], optionId: match[2] } : { optionId: raw };
+}
+
+type InteractiveOption = { id: string; title: string; value?: string };
+
+type InteractiveMenuRow = {
+	menu_id: string;
+	contact_id: string;
+	kind: 'button' | 'list';
+	body: string;
+	options: InteractiveOption[];
+	created_at: string;
+};
+
+type InteractiveChoice = {
+	// current: opção do menu vigente; stale: de um menu antigo/substituído; unknown: id que nunca enviamos
+	status: 'current' | 'stale' | 'unknown';
+	id: string;
+	title: string;
+	value?: string;
+	menu?: { kind: InteractiveMenuRow['kind']; body: string; sentAt: string };
+};
+
+async function recordInteractiveMenu(
+	env: TenantEnv,
+	menuId: string,
+	to: string,
+	kind: InteractiveMenuRow['kind'],
+	body: string,
+	options: InteractiveOption[]
+) {
+	try {
+		if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return;
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		const { error } = await supabase.from('interactive_menus').insert([
+			{
+				menu_id: menuId,
+				contact_id: windowContactId(env, to),
+				kind,
+				body: trunc(body),
+				// Sem valor explícito, o rótulo é o valor canônico
+				options: options.map((o) => ({ id: o.id, title: o.title, value: o.value ?? o.title })),
+			},
+		]);
+		if (error) console.error('recordInteractiveMenu error:', error);
+	} catch (err) {
+		console.error('recordInteractiveMenu failed:', err);
+	}
+}
+
+async function resolveInteractiveReply(env: TenantEnv, from: string, reply: { id: string; title: string }): Promise<InteractiveChoice> {
+	const { menuId, optionId } = parseInteractiveReplyId(reply.id);
+	const unknown: InteractiveChoice = { status: 'unknown', id: optionId, title: reply.title };
+	if (!menuId || !env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return unknown;
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const contactId = windowContactId(env, from);
+	const [{ data, error }, { data: latest }] = await Promise.all([
+		supabase.from('interactive_menus').select('*').eq('menu_id', menuId).eq('contact_id', contactId).maybeSingle(),
+		supabase
+			.from('interactive_menus')
+			.select('menu_id')
+			.eq('contact_id', contactId)
+			.order('created_at', { ascending: false })
+			.limit(1)
+			.maybeSingle(),
+	]);
+	if (error) {
+		console.error('resolveInteractiveReply error:', error);
+		return unknown;
+	}
+	const menu = data as InteractiveMenuRow | null;
+	const option = menu?.options?.find((o) => interactiveReplyId(menu.menu_id, o.id) === reply.id);
+	if (!menu || !option) return unknown;
+
+	const fresh = Date.now() - new Date(menu.created_at).getTime() < INTERACTIVE_MENU_TTL_MS;
+	return {
+		status: (latest as Pick<InteractiveMenuRow, 'menu_id'> | null)?.menu_id === menu.menu_id && fresh ? 'current' : 'stale',
+		id: option.id,
+		title: option.title,
+		value: option.value,
+		menu: { kind: menu.kind, body: menu.body, sentAt: menu.created_at },
+	};
+}
+
+// Instrução de sistema que acompanha o turno com a escolha estruturada
+function describeInteractiveChoice(choice: InteractiveChoice): string {
+	const option = JSON.stringify({ id: choice.id, title: choice.title, value: choice.value });
+	if (choice.status === 'current') {
+		return `O usuário escolheu uma opção do menu "${choice.menu!.body}": ${option}. Trate "value" como a resposta canônica.`;
+	}
+	if (choice.status === 'stale') {
+		return `O usuário tocou numa opção de um menu antigo ("${choice.menu!.body}", enviado em ${choice.menu!.sentAt}): ${option}. Confirme se a escolha ainda vale antes de agir.`;
+	}
+	return `O usuário tocou numa opção que não reconhecemos (${option}), provavelmente de um menu expirado. Peça para escolher de novo ou reenvie as opções.`;
+}
+
+// ---------- Janela de 24h do WhatsApp ----------
+// A Meta só aceita mensagens livres até 24h após a última mensagem do usuário; depois, só templates.
+// A última entrada por contato fica em whatsapp_contacts e cada envio é contabilizado em whatsapp_window_events.
+const WHATSAPP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type WindowTemplate = { name: string; language?: string; textParam?: boolean };
+type WindowState = 'open' | 'closed' | 'unknown';
+type WindowAction = 'sent' | 'template' | 'blocked';
+
+// Contato por número normalizado, no escopo do tenant (cada número de negócio tem sua janela)
+const windowContactId = (env: TenantEnv, phone: string) => scopeTenantId(env, normPhone(phone));
+
+async function recordInboundWindow(env: TenantEnv, phone: string, at = new Date()) {
+	try {
+		if (!phone || !env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return;
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		const { error } = await supabase
+			.from('whatsapp_contacts')
+			.upsert([{ contact_id: windowContactId(env, phone), last_inbound_at: at.toISOString() }], { onConflict: 'contact_id' });
+		if (error) console.error('recordInboundWindow error:', error);
+	} catch (err) {
+		console.error('recordInboundWindow failed:', err);
+	}
+}
+
+function parseWindowTemplate(env: TenantEnv): WindowTemplate | undefined {
+	if (!env.WHATSAPP_WINDOW_TEMPLATE) return undefined;
+	try {
+		const parsed = JSON.parse(env.WHATSAPP_WINDOW_TEMPLATE);
+		return typeof parsed?.name === 'string' && parsed.name ? parsed : undefined;
+	} catch {
+		console.error('WHATSAPP_WINDOW_TEMPLATE inválido: esperado um objeto JSON');
+		return undefined;
+	}
+}
+
+// Texto principal da mensagem original (vira {{1}} do template quando textParam)
+function outboundText(body: OutboundPayload): string {
+	switch (body.message_type) {
+		case 'text':
+			return body.payload.text;
+		case 'interactive':
+			return body.payload.body.text;
+		case 'image':
+		case 'video':
+		case 'audio':
+		case 'document':
+			return body.payload[body.message_type]?.caption ?? '';
+		default:
+			return '';
+	}
+}
+
+function windowTemplateBody(body: OutboundPayload, template: WindowTemplate): OutboundPayload {
+	const text = outboundText(body);
+	return {
+		to: body.to,
+		message_type: 'template',
+		payload: {
+			name: trunc(template.name, 512),
+			language: { code: template.language || 'pt_BR' },
+			components: template.textParam && text ? [{ type: 'body', parameters: [{ type: 'text', text: trunc(text) }] }] : undefined,
+		},
+	};
+}
+
+async function recordWindowEvent(env: TenantEnv, contactId: string, messageType: string, window: WindowState, action: WindowAction) {
+	try {
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		const { error } = await supabase
+			.from('whatsapp_window_events')
+			.insert([{ contact_id: contactId, tenant_id: env.tenant.id, message_type: messageType, window, action }]);
+		if (error) console.error('recordWindowEvent error:', error);
+	} catch (err) {
+		console.error('recordWindowEvent failed:', err);
+	}
+}
+
+// Decide o que sai: a mensagem original, o template de fallback ou um erro OUTSIDE_24H_WINDOW para o agente.
+// Contatos sem entrada registrada (ex.: conversas que chegam pelo n8n sem telefone) seguem como 'unknown'.
+async function applyWhatsAppWindow(
+	env: TenantEnv,
+	body: OutboundPayload,
+	opts: { record?: boolean } = {}
+): Promise<{ body: OutboundPayload; window: WindowState; action: WindowAction; error?: SendResult['error'] }> {
+	if (!body.to || !env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return { body, window: 'unknown', action: 'sent' };
+
+	const contactId = windowContactId(env, body.to);
+	let window: WindowState = 'unknown';
+	let lastInboundAt: string | undefined;
+	try {
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		const { data } = await supabase.from('whatsapp_contacts').select('last_inbound_at').eq('contact_id', contactId).maybeSingle();
+		lastInboundAt = (data as { last_inbound_at?: string } | null)?.last_inbound_at;
+		if (lastInboundAt) window = Date.now() - new Date(lastInboundAt).getTime() < WHATSAPP_WINDOW_MS ? 'open' : 'closed';
+	} catch (err) {
+		console.error('Janela de 24h: falha ao consultar o contato:', err);
+	}
+
+	let result: { body: OutboundPayload; window: WindowState; action: WindowAction; error?: SendResult['error'] } = { body, window, action: 'sent' };
+	if (window === 'closed' && body.message_type !== 'template') {
+		const template = parseWindowTemplate(env);
+		result = template
+			? { body: windowTemplateBody(body, template), window, action: 'template' }
+			: {
+					body,
+					window,
+					action: 'blocked',
+					error: {
+						code: 'OUTSIDE_24H_WINDOW',
+						detail: `Última mensagem do usuário em ${lastInboundAt}; fora da janela de 24h só é possível enviar templates aprovados (send_whatsapp_template).`,
+					},
+			  };
+	}
+	if (opts.record) await recordWindowEvent(env, contactId, body.message_type, result.window, result.action);
+	return result;
+}
+
+// Jobs do cron: texto livre para contato fora da janela, sem template de fallback, seria recusado. Checar antes
+// de marcar o envio evita gastar o lembrete/resumo do dia (ou um follow-up do limite) com algo que não sai.
+async function windowBlocksFreeText(env: TenantEnv, phone: string) {
+	if (parseWindowTemplate(env)) return false;
+	return (await applyWhatsAppWindow(env, { to: phone, message_type: 'text', payload: { text: '' } })).action === 'blocked';
+}
+
+async function handleWindowReport(env: TenantEnv, body: any) {
+	const days = Math.min(90, Math.max(1, Number(body?.days ?? 7)));
+	const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const { data, error } = await supabase
+		.from('whatsapp_window_events')
+		.select('window, action')
+		.eq('tenant_id', env.tenant.id)
+		.gte('created_at', since);
+	if (error) return json({ ok: false, error: 'REPORT_ERROR', detail: error.message }, 500);
+
+	const rows = (data || []) as { window: WindowState; action: WindowAction }[];
+	const byWindow: Record<WindowState, number> = { open: 0, closed: 0, unknown: 0 };
+	const byAction: Record<WindowAction, number> = { sent: 0, template: 0, blocked: 0 };
+	for (const r of rows) {
+		byWindow[r.window] = (byWindow[r.window] ?? 0) + 1;
+		byAction[r.action] = (byAction[r.action] ?? 0) + 1;
+	}
+	const known = byWindow.open + byWindow.closed;
+	return json({
+		ok: true,
+		since,
+		total: rows.length,
+		byWindow,
+		byAction,
+		// Fração dos envios com janela conhecida que saíram dentro dela
+		insideRate: known > 0 ? Math.round((byWindow.open / known) * 1000) / 1000 : null,
+	});
 }
 
 // ---------- Weburn: Buscar Programas (chamada direta) ----------
 async function buscarProgramasWeburn(
-	env: Env,
+	env: TenantEnv,
 	args: { nivel: string; modalidade: string; possui_equipamentos: boolean },
 	traceId: string
 ) {
@@ -217,6 +870,195 @@ async function buscarProgramasWeburn(
 	}
 }
 
+// ---------- Camada de modelos (provedores, fallback e circuit breaker) ----------
+// MODEL_CONFIG (JSON) troca modelos por caso de uso sem deploy, com fallback em ordem, ex.:
+// { "providers": { "groq": { "baseURL": "https://api.groq.com/openai/v1", "apiKeyVar": "GROQ_API_KEY" } },
+//   "routes": { "chat": [{ "provider": "openai", "model": "gpt-4o-mini" }, { "provider": "groq", "model": "llama-3.3-70b-versatile" }],
+//               "doc": [{ "provider": "openai", "model": "gpt-4o-mini", "api": "responses" }] } }
+// Provedores são endpoints compatíveis com a API da OpenAI ("openai" usa OPENAI_API_KEY).
+type ModelUseCase = 'chat' | 'vision' | 'doc' | 'transcription' | 'summary' | 'profile';
+
+type ModelTarget = {
+	provider: string;
+	model: string;
+	temperature?: number;
+	maxTokens?: number;
+	// 'responses' usa a Responses API (só para geração de texto: vision, doc, summary)
+	api?: 'chat' | 'responses';
+};
+
+type ModelProvider = { baseURL?: string; apiKey?: string; apiKeyVar?: string };
+
+type ModelUsed = { provider: string; model: string };
+
+const DEFAULT_MODEL_ROUTES: Record<ModelUseCase, ModelTarget[]> = {
+	chat: [{ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 1000 }],
+	vision: [{ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 600 }],
+	doc: [{ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.3, maxTokens: 600 }],
+	transcription: [{ provider: 'openai', model: 'whisper-1' }],
+	summary: [{ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 400 }],
+	profile: [{ provider: 'openai', model: 'gpt-4o-mini', temperature: 0, maxTokens: 300 }],
+};
+
+function parseModelConfig(env: TenantEnv): { providers: Record<string, ModelProvider>; routes: Partial<Record<ModelUseCase, ModelTarget[]>> } {
+	if (!env.MODEL_CONFIG) return { providers: {}, routes: {} };
+	try {
+		const parsed = JSON.parse(env.MODEL_CONFIG);
+		return { providers: parsed?.providers || {}, routes: parsed?.routes || {} };
+	} catch {
+		console.error('MODEL_CONFIG inválido: esperado um objeto JSON');
+		return { providers: {}, routes: {} };
+	}
+}
+
+// Cadeia de modelos do caso de uso; o modelo/temperatura do tenant substituem o primeiro do chat
+function modelRoute(env: TenantEnv, useCase: ModelUseCase): ModelTarget[] {
+	const configured = parseModelConfig(env).routes[useCase];
+	const route = (Array.isArray(configured) && configured.length > 0 ? configured : DEFAULT_MODEL_ROUTES[useCase]).map((t) => ({
+		...t,
+		provider: t.provider || 'openai',
+	}));
+	if (useCase === 'chat' && (env.tenant.model || env.tenant.temperature !== undefined)) {
+		route[0] = { ...route[0], model: env.tenant.model || route[0].model, temperature: env.tenant.temperature ?? route[0].temperature };
+	}
+	return route;
+}
+
+function modelClient(env: TenantEnv, providerName: string): OpenAI {
+	const provider = parseModelConfig(env).providers[providerName] || {};
+	// apiKeyVar aponta para um secret que não está declarado no Env (ex.: GROQ_API_KEY)
+	const vars = env as unknown as Record<string, string | undefined>;
+	const apiKey = provider.apiKey || (provider.apiKeyVar ? vars[provider.apiKeyVar] : undefined) || env.OPENAI_API_KEY;
+	return new OpenAI({ apiKey, baseURL: provider.baseURL });
+}
+
+// Circuit breaker por provedor/modelo (por isolate): após falhas seguidas, pula o alvo por um tempo
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_OPEN_MS = 30_000;
+const modelCircuits = new Map<string, { failures: number; openUntil: number }>();
+
+const circuitKey = (t: ModelTarget) => `${t.provider}:${t.model}`;
+const isCircuitOpen = (t: ModelTarget) => (modelCircuits.get(circuitKey(t))?.openUntil ?? 0) > Date.now();
+
+function recordModelResult(t: ModelTarget, ok: boolean) {
+	if (ok) {
+		modelCircuits.delete(circuitKey(t));
+		return;
+	}
+	const state = modelCircuits.get(circuitKey(t)) ?? { failures: 0, openUntil: 0 };
+	state.failures++;
+	if (state.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+		state.openUntil = Date.now() + CIRCUIT_OPEN_MS;
+		state.failures = 0;
+		console.error(`Circuito aberto para ${circuitKey(t)} por ${CIRCUIT_OPEN_MS}ms`);
+	}
+	modelCircuits.set(circuitKey(t), state);
+}
+
+// Executa na cadeia do caso de uso até um alvo responder. canFallback permite interromper
+// (ex.: stream que já entregou texto ao cliente não pode recomeçar em outro modelo).
+async function withModelFallback<T>(
+	env: TenantEnv,
+	useCase: ModelUseCase,
+	run: (client: OpenAI, target: ModelTarget) => Promise<T>,
+	canFallback: () => boolean = () => true
+): Promise<{ result: T; used: ModelUsed }> {
+	const route = modelRoute(env, useCase);
+	const available = route.filter((t) => !isCircuitOpen(t));
+	// Todos com circuito aberto: tenta a cadeia inteira mesmo assim
+	const candidates = available.length > 0 ? available : route;
+	let lastError: unknown;
+	for (const target of candidates) {
+		try {
+			const result = await run(modelClient(env, target.provider), target);
+			recordModelResult(target, true);
+			return { result, used: { provider: target.provider, model: target.model } };
+		} catch (e: any) {
+			lastError = e;
+			if (e?.name === 'AbortError') throw e;
+			recordModelResult(target, false);
+			console.error(`Modelo ${circuitKey(target)} falhou (${useCase}):`, e?.message || e);
+			if (!canFallback()) break;
+		}
+	}
+	throw lastError;
+}
+
+// Responses API: o SDK a partir de ^4.67 nem sempre tipa `client.responses`, então declaramos só o que usamos
+type ResponsesInputMessage = {
+	role: 'system' | 'assistant' | 'user';
+	content: string | ({ type: 'input_text'; text: string } | { type: 'input_image'; image_url: string })[];
+};
+
+type ResponsesClient = {
+	responses: {
+		create(params: {
+			model: string;
+			input: ResponsesInputMessage[];
+			temperature?: number;
+			max_output_tokens?: number;
+		}): Promise<{ output_text?: string }>;
+	};
+};
+
+// Transcrição: provedores compatíveis variam no formato da resposta (`text` ou `data.text`)
+type TranscriptionClient = {
+	audio: {
+		transcriptions: {
+			create(params: {
+				file: File;
+				model: string;
+				language?: string;
+				prompt?: string;
+			}): Promise<{ text?: string; data?: { text?: string } }>;
+		};
+	};
+};
+
+// Converte mensagens do chat para o input da Responses API
+function toResponsesInput(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): ResponsesInputMessage[] {
+	return messages.map((m) => ({
+		role: m.role === 'system' ? 'system' : m.role === 'assistant' ? 'assistant' : 'user',
+		content:
+			typeof m.content === 'string'
+				? m.content
+				: (m.content || []).map((part) =>
+						part.type === 'image_url'
+							? { type: 'input_image', image_url: part.image_url.url }
+							: { type: 'input_text', text: part.type === 'text' ? part.text : '' }
+				  ),
+	}));
+}
+
+// Geração de texto simples (sem tools) com fallback; respeita api 'chat' ou 'responses' do alvo
+async function generateText(
+	env: TenantEnv,
+	useCase: ModelUseCase,
+	messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+	overrides: { maxTokens?: number } = {}
+): Promise<{ text: string; used: ModelUsed }> {
+	const { result, used } = await withModelFallback(env, useCase, async (client, target) => {
+		const maxTokens = overrides.maxTokens ?? target.maxTokens;
+		if (target.api === 'responses') {
+			const resp = await (client as unknown as ResponsesClient).responses.create({
+				model: target.model,
+				input: toResponsesInput(messages),
+				temperature: target.temperature,
+				max_output_tokens: maxTokens,
+			});
+			return String(resp?.output_text ?? '');
+		}
+		const completion = await client.chat.completions.create({
+			model: target.model,
+			messages,
+			temperature: target.temperature,
+			max_tokens: maxTokens,
+		});
+		return completion.choices[0]?.message?.content ?? '';
+	});
+	return { text: result, used };
+}
+
 // ---------- Multimodal Handlers ----------
 const json = (data: any, status = 200) =>
   new Response(JSON.stringify(data), {
@@ -224,100 +1066,3908 @@ const json = (data: any, status = 200) =>
     headers: { 'content-type': 'application/json' },
   });
 
+const base64ToBytes = (b64: string) => latin1ToBytes(atob(b64));
+// Confere o base64 antes do atob (que lança InvalidCharacterError e viraria 500); espaços e quebras de linha são ignorados
+const isValidBase64 = (b64: string) =>
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}(?:==)?|[A-Za-z0-9+/]{3}=?)?$/.test(b64.replace(/\s+/g, ''));
+
 function base64ToBlob(b64: string, contentType = 'application/octet-stream'): Blob {
-  const bin = atob(b64);
-  const bytes = new Uint8Array(bin.length);
-  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
-  return new Blob([bytes], { type: contentType });
+  return new Blob([base64ToBytes(b64)], { type: contentType });
+}
+
+// Tipo real pelos primeiros bytes: base64 e URLs nem sempre trazem um MIME confiável
+function sniffMimeType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF') return ascii(8, 12) === 'WEBP' ? 'image/webp' : ascii(8, 12) === 'WAVE' ? 'audio/wav' : null;
+  if (ascii(0, 4) === '%PDF') return 'application/pdf';
+  if (ascii(0, 4) === 'PK\x03\x04') return 'application/zip';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'audio/webm';
+  if (ascii(4, 8) === 'ftyp') return ascii(8, 11) === 'M4A' ? 'audio/mp4' : /^hei[cfx]/.test(ascii(8, 12)) ? 'image/heic' : 'video/mp4';
+  return null;
 }
 
-async function handleImageAnalysis(openai: OpenAI, body: any) {
-  const { imageUrl, imageBase64, prompt } = body || {};
+// A transcrição usa a extensão do arquivo para reconhecer o formato
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/flac': 'flac',
+  'audio/mp4': 'm4a',
+  'audio/webm': 'webm',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+const audioFile = (blob: Blob, mimeType: string) => {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return new File([blob], AUDIO_EXTENSIONS[type] ? `audio.${AUDIO_EXTENSIONS[type]}` : 'audio', { type });
+};
+
+// imageUrl pode ser um data URL (base64)
+async function analyzeImage(env: TenantEnv, imageUrl: string, prompt?: string) {
   const content: any[] = [];
-  if (prompt) content.push({ type: 'text', text: String(prompt) });
+  if (prompt) content.push({ type: 'text', text: prompt });
+  content.push({ type: 'image_url', image_url: { url: imageUrl } });
+  return generateText(env, 'vision', [{ role: 'user', content }]);
+}
+
+async function transcribeAudio(env: TenantEnv, file: File, opts: { language?: string; prompt?: string } = {}) {
+  const { result: tr, used } = await withModelFallback(env, 'transcription', (client, target) =>
+    (client as unknown as TranscriptionClient).audio.transcriptions.create({
+      file,
+      model: target.model,
+      language: opts.language,
+      prompt: opts.prompt,
+    })
+  );
+  const text = tr?.text ?? tr?.data?.text ?? '';
+  return { text, used };
+}
+
+async function handleImageAnalysis(env: TenantEnv, body: any) {
+  const { imageUrl, imageBase64, mimeType, prompt, mode } = body || {};
+  let url: string;
   if (imageUrl) {
-    content.push({ type: 'image_url', image_url: { url: String(imageUrl) } });
+    url = String(imageUrl);
   } else if (imageBase64) {
-    const dataUrl = `data:image/png;base64,${String(imageBase64)}`;
-    content.push({ type: 'image_url', image_url: { url: dataUrl } });
+    if (!isValidBase64(String(imageBase64))) return json({ ok: false, error: 'Invalid imageBase64' }, 400);
+    const bytes = base64ToBytes(String(imageBase64));
+    url = `data:${sniffMimeType(bytes) || mimeType || 'image/jpeg'};base64,${String(imageBase64)}`;
   } else {
     return json({ ok: false, error: 'Missing imageUrl or imageBase64' }, 400);
   }
 
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [{ role: 'user', content }],
-    temperature: 0.2,
-    max_tokens: 600,
-  });
-  const text = completion.choices[0]?.message?.content ?? '';
-  return json({ ok: true, result: text, model: 'gpt-4o-mini' }, 200);
+  // mode 'meal': análise nutricional estruturada; com conversationId (e save !== false) entra no diário alimentar
+  if (mode === 'meal') {
+    const { analysis, used } = await analyzeMeal(env, url, prompt ? String(prompt) : undefined);
+    const userId = typeof body.conversationId === 'string' ? body.conversationId : '';
+    const canLog = analysis.eh_refeicao && userId && body.save !== false && env.SUPABASE_URL && env.SUPABASE_ANON_KEY;
+    const row = canLog ? await logMeal(env, userId, analysis, { imageUrl: url }) : null;
+    return json(
+      {
+        ok: true,
+        result: analysis.eh_refeicao ? formatMealNote(analysis, row) : analysis.descricao,
+        meal: analysis,
+        foodLog: row && { id: row.id, date: row.local_date, mealType: row.meal_type },
+        model: used.model,
+        provider: used.provider,
+      },
+      200
+    );
+  }
+
+  const { text, used } = await analyzeImage(env, url, prompt ? String(prompt) : undefined);
+  return json({ ok: true, result: text, model: used.model, provider: used.provider }, 200);
 }
 
-async function handleAudioTranscription(openai: OpenAI, body: any) {
-  const { audioUrl, audioBase64, mimeType = 'audio/webm', language, prompt } = body || {};
-  let file: File | undefined;
+async function handleAudioTranscription(env: TenantEnv, body: any) {
+  const { audioUrl, audioBase64, mimeType, language, prompt } = body || {};
+  let blob: Blob;
   if (audioUrl) {
     const res = await fetch(String(audioUrl));
     if (!res.ok) return json({ ok: false, error: `Failed to fetch audio (${res.status})` }, 400);
-    const blob = await res.blob();
-    file = new File([blob], 'audio', { type: blob.type || mimeType });
+    blob = await res.blob();
   } else if (audioBase64) {
-    const blob = base64ToBlob(String(audioBase64), mimeType);
+    if (!isValidBase64(String(audioBase64))) return json({ ok: false, error: 'Invalid audioBase64' }, 400);
+    blob = base64ToBlob(String(audioBase64), '');
     if (blob.size === 0) return json({ ok: false, error: 'Invalid audioBase64' }, 400);
-    file = new File([blob], 'audio', { type: mimeType });
   } else {
     return json({ ok: false, error: 'Missing audioUrl or audioBase64' }, 400);
   }
 
-  // @ts-ignore SDK typing varies
-  const tr = await (openai as any).audio.transcriptions.create({
-    file,
-    model: 'whisper-1',
-    language,
-    prompt,
-  });
-  const text = tr?.text ?? tr?.data?.text ?? '';
-  return json({ ok: true, text, model: 'whisper-1' }, 200);
+  const sniffed = sniffMimeType(new Uint8Array(await blob.slice(0, 16).arrayBuffer()));
+  const file = audioFile(blob, mimeType || sniffed || blob.type || 'audio/webm');
+  const { text, used } = await transcribeAudio(env, file, { language, prompt });
+  return json({ ok: true, text, model: used.model, provider: used.provider }, 200);
+}
+
+// Documentos longos: map-reduce por trechos (cada trecho com suas páginas) em vez de truncar
+const DOC_CHUNK_CHARS = 12_000;
+const DOC_MAX_CHUNKS = 20;
+const DOC_MAP_CONCURRENCY = 4;
+
+type DocChunk = { text: string; pages?: [number, number] };
+
+function docChunks(doc: ExtractedDocument): DocChunk[] {
+  const units: DocChunk[] = doc.pages
+    ? doc.pages.flatMap((text, i) =>
+        text.trim() ? fitMessageChunks(text.trim(), DOC_CHUNK_CHARS).map((t) => ({ text: t, pages: [i + 1, i + 1] as [number, number] })) : []
+      )
+    : fitMessageChunks(doc.text.trim(), DOC_CHUNK_CHARS).map((t) => ({ text: t }));
+  const chunks: DocChunk[] = [];
+  for (const unit of units) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + unit.text.length + 2 <= DOC_CHUNK_CHARS) {
+      last.text += `\n\n${unit.text}`;
+      if (last.pages && unit.pages) last.pages = [last.pages[0], unit.pages[1]];
+    } else chunks.push({ ...unit });
+  }
+  return chunks;
 }
 
-async function handleDocUnderstanding(openai: OpenAI, body: any) {
-  const { text, docUrl, prompt } = body || {};
-  let sourceText = String(text || '');
-  if (!sourceText && docUrl) {
-    const res = await fetch(String(docUrl));
+const pagesLabel = (c: DocChunk) => (c.pages ? (c.pages[0] === c.pages[1] ? `página ${c.pages[0]}` : `páginas ${c.pages[0]}–${c.pages[1]}`) : '');
+
+async function loadDocumentInput(body: any): Promise<ExtractedDocument | Response> {
+  const { text, docUrl, fileUrl, base64, mimeType, filename } = body || {};
+  if (text) return { format: 'text', pages: null, pageCount: null, text: String(text) };
+
+  let bytes: Uint8Array;
+  let contentType = String(mimeType || '');
+  const url = fileUrl || docUrl;
+  if (url) {
+    const res = await fetch(String(url));
     if (!res.ok) return json({ ok: false, error: `Failed to fetch doc (${res.status})` }, 400);
-    const ct = res.headers.get('content-type') || '';
-    if (ct.startsWith('text/')) {
-      sourceText = await res.text();
-    } else {
-      return json({ ok: false, error: 'UNSUPPORTED_DOC', detail: 'Use text or a text/* URL for now.' }, 415);
-    }
+    if (Number(res.headers.get('content-length') || 0) > DOC_MAX_BYTES) return json({ ok: false, error: 'DOC_TOO_LARGE' }, 413);
+    contentType = contentType || res.headers.get('content-type') || '';
+    bytes = new Uint8Array(await res.arrayBuffer());
+  } else if (base64) {
+    if (!isValidBase64(String(base64))) return json({ ok: false, error: 'Invalid base64' }, 400);
+    bytes = base64ToBytes(String(base64));
+    if (bytes.length === 0) return json({ ok: false, error: 'Invalid base64' }, 400);
+  } else {
+    return json({ ok: false, error: 'Missing text, fileUrl or base64' }, 400);
+  }
+  return documentFromBytes(bytes, contentType, String(filename || url || ''));
+}
+
+// Extração com as respostas de erro dos handlers (413 tamanho, 415 formato, 400 arquivo corrompido)
+async function documentFromBytes(bytes: Uint8Array, contentType: string, filename: string): Promise<ExtractedDocument | Response> {
+  if (bytes.length > DOC_MAX_BYTES) return json({ ok: false, error: 'DOC_TOO_LARGE' }, 413);
+  try {
+    const doc = await extractDocument(bytes, contentType, filename);
+    if (!doc) return json({ ok: false, error: 'UNSUPPORTED_DOC', detail: 'Supported formats: PDF, DOCX and text/*.' }, 415);
+    return doc;
+  } catch (e) {
+    if (e instanceof MalformedDocumentError) return json({ ok: false, error: 'MALFORMED_DOC', detail: e.message }, 400);
+    throw e;
   }
-  if (!sourceText) return json({ ok: false, error: 'Missing text or docUrl' }, 400);
+}
+
+// null quando o documento não tem texto extraível (ex.: PDF escaneado)
+async function answerDocument(env: TenantEnv, doc: ExtractedDocument, q: string) {
+  const chunks = docChunks(doc);
+  if (chunks.length === 0) return null;
+
+  const processed = chunks.slice(0, DOC_MAX_CHUNKS);
+  const complete = processed.length === chunks.length;
+  let result: { text: string; used: ModelUsed };
 
-  const q = prompt ? String(prompt) : 'Resuma o conteúdo de forma objetiva.';
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
+  if (chunks.length === 1) {
+    result = await generateText(env, 'doc', [
       { role: 'system', content: 'Você é um assistente que resume documentos.' },
-      { role: 'user', content: `${q}\n\n---\n${sourceText.slice(0, 8000)}` },
-    ],
-    temperature: 0.3,
-    max_tokens: 600,
-  });
-  const out = completion.choices[0]?.message?.content ?? '';
-  return json({ ok: true, result: out, model: 'gpt-4o-mini' }, 200);
+      { role: 'user', content: `${q}\n\n---\n${chunks[0].text}` },
+    ]);
+  } else {
+    // Map: notas relevantes de cada trecho (com concorrência limitada)
+    const notes: string[] = new Array(processed.length);
+    let next = 0;
+    const mapNext = async () => {
+      for (let i = next++; i < processed.length; i = next++) {
+        const chunk = processed[i];
+        const where = pagesLabel(chunk) ? ` (${pagesLabel(chunk)})` : '';
+        const { text } = await generateText(env, 'doc', [
+          { role: 'system', content: 'Você lê trechos de um documento e anota o que importa para a tarefa pedida.' },
+          {
+            role: 'user',
+            content:
+              `Tarefa: ${q}\n\nTrecho ${i + 1} de ${chunks.length}${where}:\n---\n${chunk.text}\n---\n` +
+              'Anote só o que for relevante (fatos, números, orientações), indicando as páginas. Se nada for relevante, responda apenas NADA.',
+          },
+        ]);
+        notes[i] = text.trim() && text.trim() !== 'NADA' ? `[Trecho ${i + 1}${where}]\n${text.trim()}` : '';
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(DOC_MAP_CONCURRENCY, processed.length) }, mapNext));
+
+    // Reduce: resposta final a partir das notas
+    const partial = complete ? '' : `\nAtenção: só os primeiros ${processed.length} de ${chunks.length} trechos foram lidos; diga isso na resposta.`;
+    result = await generateText(env, 'doc', [
+      { role: 'system', content: 'Você é um assistente que resume documentos.' },
+      { role: 'user', content: `${q}\n\nNotas extraídas do documento, por trecho:${partial}\n---\n${notes.filter(Boolean).join('\n\n') || '(nenhum trecho relevante)'}` },
+    ]);
+  }
+
+  const pagesRead = new Set(processed.flatMap((c) => (c.pages ? Array.from({ length: c.pages[1] - c.pages[0] + 1 }, (_, k) => c.pages![0] + k) : [])));
+  return {
+    ...result,
+    coverage: {
+      complete,
+      chunks: { total: chunks.length, processed: processed.length },
+      characters: { total: chunks.reduce((n, c) => n + c.text.length, 0), processed: processed.reduce((n, c) => n + c.text.length, 0) },
+      // Páginas com texto lidas (PDF); DOCX/texto não têm páginas por trecho
+      pages: doc.pages ? { total: doc.pageCount, withText: doc.pages.filter((p) => p.trim()).length, read: pagesRead.size } : null,
+    },
+  };
 }
 
-// ---------- Worker ----------
-export default {
-	async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
-		const { pathname } = new URL(request.url);
-		if (request.method === 'GET' && pathname === '/health') {
-			const has = (v?: string) => typeof v === 'string' && v.length > 0;
-			const n8nBase = trimTrailingSlash(env.N8N_WEBHOOK_URL);
-			const health = {
+async function handleDocUnderstanding(env: TenantEnv, body: any) {
+  const doc = await loadDocumentInput(body);
+  if (doc instanceof Response) return doc;
+  const document = { format: doc.format, pages: doc.pageCount };
+  const q = body?.question || body?.prompt ? String(body.question || body.prompt) : 'Resuma o conteúdo de forma objetiva.';
+  const answer = await answerDocument(env, doc, q);
+  if (!answer) return json({ ok: false, error: 'EMPTY_DOC', detail: 'No extractable text (scanned PDF?)', document }, 422);
+
+  return json(
+    {
+      ok: true,
+      result: answer.text,
+      model: answer.used.model,
+      provider: answer.used.provider,
+      document: { ...document, characters: doc.text.length },
+      coverage: answer.coverage,
+    },
+    200
+  );
+}
+
+// ---------- Anexos no turno (imagem, áudio, documento) ----------
+// O POST raiz aceita anexos junto (ou no lugar) de newMessage: cada anexo vira texto (descrição,
+// transcrição ou leitura do documento) e entra na mesma mensagem do usuário, com uma única resposta.
+type AttachmentKind = 'image' | 'audio' | 'document';
+
+type TurnAttachment = {
+	type?: AttachmentKind; // opcional: deduzido do conteúdo
+	url?: string;
+	base64?: string;
+	// id de mídia da WhatsApp Cloud API (baixada com WHATSAPP_ACCESS_TOKEN)
+	mediaId?: string;
+	mimeType?: string;
+	filename?: string;
+	caption?: string;
+};
+
+type AttachmentReport = {
+	type: AttachmentKind | null;
+	mimeType: string | null;
+	ok: boolean;
+	error?: string;
+	model?: ModelUsed;
+};
+
+const ATTACHMENT_MAX_COUNT = 5;
+// Limite da transcrição de áudio; documentos continuam limitados a DOC_MAX_BYTES
+const ATTACHMENT_MAX_BYTES = 25 * 1024 * 1024;
+const WHATSAPP_GRAPH_URL = 'https://graph.facebook.com/v20.0';
+const VISION_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const ATTACHMENT_LABELS: Record<AttachmentKind, string> = { image: 'imagem', audio: 'áudio', document: 'documento' };
+const ATTACHMENT_IMAGE_PROMPT =
+	'Descreva objetivamente o que aparece na imagem (alimentos e porções, exercícios, textos, números) para o assistente responder ao usuário.';
+
+function attachmentKind(mimeType: string): AttachmentKind | null {
+	if (VISION_MIME_TYPES.includes(mimeType)) return 'image';
+	if (mimeType.startsWith('audio/') || mimeType.startsWith('video/')) return 'audio';
+	if (mimeType === 'application/pdf' || mimeType === 'application/zip' || mimeType.includes('wordprocessingml') || mimeType.startsWith('text/')) {
+		return 'document';
+	}
+	return null;
+}
+
+// Mensagem de erro (400) ou null quando a lista é válida
+function validateAttachments(raw: unknown): string | null {
+	if (raw === undefined) return null;
+	if (!Array.isArray(raw)) return '"attachments" deve ser uma lista.';
+	if (raw.length > ATTACHMENT_MAX_COUNT) return `No máximo ${ATTACHMENT_MAX_COUNT} anexos por mensagem.`;
+	for (const [i, a] of raw.entries()) {
+		if (!a || typeof a !== 'object' || [a.url, a.base64, a.mediaId].filter(Boolean).length !== 1) {
+			return `attachments[${i}]: informe "url", "base64" ou "mediaId".`;
+		}
+		if (a.base64 && !isValidBase64(String(a.base64))) return `attachments[${i}].base64 inválido.`;
+		if (a.type !== undefined && !Object.prototype.hasOwnProperty.call(ATTACHMENT_LABELS, a.type)) {
+			return `attachments[${i}].type deve ser image, audio ou document.`;
+		}
+	}
+	return null;
+}
+
+// Mídia recebida no webhook: a Graph API devolve uma URL temporária, que também exige o token
+async function downloadWhatsAppMedia(env: TenantEnv, mediaId: string): Promise<{ bytes: Uint8Array; mimeType: string }> {
+	if (!env.WHATSAPP_ACCESS_TOKEN) throw new Error('WHATSAPP_ACCESS_TOKEN_MISSING');
+	const headers = { authorization: `Bearer ${env.WHATSAPP_ACCESS_TOKEN}` };
+	const meta = await fetch(`${WHATSAPP_GRAPH_URL}/${encodeURIComponent(mediaId)}`, { headers });
+	if (!meta.ok) throw new Error(`WHATSAPP_MEDIA_FAILED (${meta.status})`);
+	const info = (await meta.json()) as { url?: string; mime_type?: string; file_size?: number };
+	if (!info.url) throw new Error('WHATSAPP_MEDIA_FAILED (sem url)');
+	if (Number(info.file_size || 0) > ATTACHMENT_MAX_BYTES) throw new Error('ATTACHMENT_TOO_LARGE');
+	const res = await fetch(info.url, { headers });
+	if (!res.ok) throw new Error(`WHATSAPP_MEDIA_FAILED (${res.status})`);
+	return { bytes: new Uint8Array(await res.arrayBuffer()), mimeType: info.mime_type || res.headers.get('content-type') || '' };
+}
+
+async function loadAttachment(env: TenantEnv, att: TurnAttachment): Promise<{ bytes: Uint8Array; mimeType: string }> {
+	let bytes: Uint8Array;
+	let declared = att.mimeType || '';
+	if (att.mediaId) {
+		const media = await downloadWhatsAppMedia(env, att.mediaId);
+		bytes = media.bytes;
+		declared ||= media.mimeType;
+	} else if (att.url) {
+		const res = await fetch(att.url);
+		if (!res.ok) throw new Error(`FETCH_FAILED (${res.status})`);
+		if (Number(res.headers.get('content-length') || 0) > ATTACHMENT_MAX_BYTES) throw new Error('ATTACHMENT_TOO_LARGE');
+		declared ||= res.headers.get('content-type') || '';
+		bytes = new Uint8Array(await res.arrayBuffer());
+	} else {
+		bytes = base64ToBytes(String(att.base64));
+	}
+	if (bytes.length === 0) throw new Error('EMPTY_ATTACHMENT');
+	if (bytes.length > ATTACHMENT_MAX_BYTES) throw new Error('ATTACHMENT_TOO_LARGE');
+	// O conteúdo manda: base64 costuma chegar sem MIME e URLs com application/octet-stream
+	return { bytes, mimeType: sniffMimeType(bytes) || declared.split(';')[0].trim().toLowerCase() || 'application/octet-stream' };
+}
+
+// Texto que o anexo acrescenta à mensagem do usuário (ex.: "[áudio] ...", "[imagem: legenda] ...").
+// Imagens também voltam em `image` (URL ou data URL) para a tool registrar_refeicao_foto.
+async function processAttachment(
+	env: TenantEnv,
+	att: TurnAttachment,
+	userText: string
+): Promise<{ note: string; report: AttachmentReport; image?: string }> {
+	const context = att.caption || userText;
+	let kind = att.type ?? null;
+	let mimeType = att.mimeType ?? null;
+	const head = () => `[${kind ? ATTACHMENT_LABELS[kind] : 'anexo'}${att.filename ? ` ${att.filename}` : ''}${att.caption ? `: ${att.caption}` : ''}]`;
+	try {
+		let result: { text: string; used: ModelUsed };
+		let image: string | undefined;
+		const imagePrompt = context ? `${ATTACHMENT_IMAGE_PROMPT}\nMensagem do usuário: ${context}` : ATTACHMENT_IMAGE_PROMPT;
+		if (att.url && (kind === 'image' || (!kind && VISION_MIME_TYPES.includes(mimeType || '')))) {
+			// Imagem por URL vai direto para o modelo, sem baixar
+			kind = 'image';
+			image = att.url;
+			result = await analyzeImage(env, image, imagePrompt);
+		} else {
+			const loaded = await loadAttachment(env, att);
+			mimeType = loaded.mimeType;
+			kind = kind ?? attachmentKind(mimeType);
+			if (kind === 'image') {
+				image = `data:${mimeType};base64,${btoa(bytesToLatin1(loaded.bytes))}`;
+				result = await analyzeImage(env, image, imagePrompt);
+			} else if (kind === 'audio') {
+				result = await transcribeAudio(env, audioFile(new Blob([loaded.bytes]), mimeType));
+			} else if (kind === 'document') {
+				if (loaded.bytes.length > DOC_MAX_BYTES) throw new Error('DOC_TOO_LARGE');
+				const doc = await extractDocument(loaded.bytes, mimeType, att.filename || att.url || '');
+				if (!doc) throw new Error('UNSUPPORTED_DOC');
+				const q = context
+					? `Extraia do documento o que ajuda a responder a esta mensagem do usuário: ${context}`
+					: 'Resuma o conteúdo de forma objetiva.';
+				const answer = await answerDocument(env, doc, q);
+				if (!answer) throw new Error('EMPTY_DOC');
+				result = answer;
+			} else {
+				throw new Error('UNSUPPORTED_ATTACHMENT');
+			}
+		}
+		return { note: `${head()} ${result.text.trim()}`, report: { type: kind, mimeType, ok: true, model: result.used }, image };
+	} catch (e: any) {
+		console.error('Falha ao processar anexo:', e);
+		return { note: `${head()} (não foi possível ler o anexo)`, report: { type: kind, mimeType, ok: false, error: e?.message || String(e) } };
+	}
+}
+
+// Anexos em paralelo; as notas vêm antes do texto do usuário, na ordem recebida
+async function resolveAttachments(env: TenantEnv, attachments: TurnAttachment[], newMessage: string) {
+	const results = await Promise.all(attachments.map((att) => processAttachment(env, att, newMessage)));
+	return {
+		message: [...results.map((r) => r.note), newMessage].filter(Boolean).join('\n'),
+		reports: results.map((r) => r.report),
+		images: results.flatMap((r) => (r.image ? [r.image] : [])),
+	};
+}
+
+// ---------- Onboarding (pesquisa inicial) ----------
+type OnboardingQuestionId = 'goal' | 'location' | 'training_time';
+
+type OnboardingQuestion = {
+	id: OnboardingQuestionId;
+	label: string; // rótulo usado no prompt do agente
+	text: string;
+	kind: 'buttons' | 'list';
+	button?: string; // texto do botão principal (lista)
+	options: { value: string; label: string; synonyms: string[] }[];
+};
+
+// Tabela onboarding_answers: uma linha por usuário com o estado da pesquisa
+interface OnboardingRow {
+	user_id: string;
+	phone?: string | null;
+	order_id?: string | null;
+	status: 'in_progress' | 'completed';
+	current_question: OnboardingQuestionId | null;
+	goal?: string | null;
+	location?: string | null;
+	training_time?: string | null;
+	completed_at?: string | null;
+}
+
+const ONBOARDING_QUESTIONS: OnboardingQuestion[] = [
+	{
+		id: 'goal',
+		label: 'Objetivo principal',
+		text: 'Qual é o seu objetivo principal? 🎯',
+		kind: 'list',
+		button: 'Ver objetivos',
+		options: [
+			{ value: 'emagrecer', label: 'Emagrecer', synonyms: ['perder peso', 'secar', 'emagrecimento'] },
+			{ value: 'ganhar_massa', label: 'Ganhar massa', synonyms: ['hipertrofia', 'massa muscular', 'musculo'] },
+			{ value: 'condicionamento', label: 'Condicionamento', synonyms: ['resistencia', 'folego', 'cardio'] },
+			{ value: 'saude', label: 'Saúde e bem-estar', synonyms: ['saude', 'bem-estar', 'qualidade de vida'] },
+		],
+	},
+	{
+		id: 'location',
+		label: 'Local de treino',
+		text: 'Onde você vai treinar? 📍',
+		kind: 'buttons',
+		options: [
+			{ value: 'casa', label: 'Em casa', synonyms: ['casa', 'home'] },
+			{ value: 'academia', label: 'Academia', synonyms: ['academia', 'gym'] },
+			{ value: 'ar_livre', label: 'Ao ar livre', synonyms: ['ar livre', 'parque', 'rua', 'praia'] },
+		],
+	},
+	{
+		id: 'training_time',
+		label: 'Tempo de treino',
+		text: 'Há quanto tempo você treina? ⏱️',
+		kind: 'list',
+		button: 'Ver opções',
+		options: [
+			{ value: 'nunca', label: 'Nunca treinei', synonyms: ['nunca', 'nao treino', 'comecando'] },
+			{ value: 'menos_6m', label: 'Menos de 6 meses', synonyms: ['menos de 6', 'poucos meses'] },
+			{ value: '6_12m', label: '6 a 12 meses', synonyms: ['6 a 12', 'menos de 1 ano', 'menos de um ano'] },
+			{ value: 'mais_1a', label: 'Mais de 1 ano', synonyms: ['mais de 1', 'mais de um ano', 'anos'] },
+		],
+	},
+];
+
+const ONBOARDING_DONE_TEXT = 'Pesquisa concluída! 🎉 O Perso está liberado. Me conta: como posso te ajudar hoje?';
+
+const normalizeText = (s: string) =>
+	(s || '')
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.trim();
+
+const getOnboardingQuestion = (id?: string | null) => ONBOARDING_QUESTIONS.find((q) => q.id === id);
+
+// Aceita id da opção ("goal:emagrecer"), rótulo, 1/2/3, a/b/c ou sinônimos no texto livre
+function normalizeOnboardingAnswer(question: OnboardingQuestion, raw: string): string | null {
+	// Toque num menu nosso chega como "<menu_id>:goal:emagrecer"
+	const answer = normalizeText(parseInteractiveReplyId(raw).optionId).replace(/[.)\s]+$/, '');
+	if (!answer) return null;
+	const idx = /^\d+$/.test(answer) ? Number(answer) - 1 : /^[a-z]$/.test(answer) ? answer.charCodeAt(0) - 97 : -1;
+	if (idx >= 0) return question.options[idx]?.value ?? null;
+	for (const opt of question.options) {
+		if (answer === opt.value || answer === `${question.id}:${opt.value}` || answer === normalizeText(opt.label)) return opt.value;
+	}
+	for (const opt of question.options) {
+		if ([opt.label, ...opt.synonyms].some((s) => answer.includes(normalizeText(s)))) return opt.value;
+	}
+	return null;
+}
+
+// Versão em texto (opções numeradas) para canais sem mensagem interativa
+const formatOnboardingQuestion = (q: OnboardingQuestion) =>
+	`${q.text}\n\n${q.options.map((o, i) => `${i + 1}) ${o.label}`).join('\n')}`;
+
+async function sendOnboardingQuestion(env: TenantEnv, phone: string, q: OnboardingQuestion, traceId: string) {
+	if (q.kind === 'buttons') {
+		return tool_send_whatsapp_buttons(
+			env,
+			{ to: phone, body: q.text, buttons: q.options.map((o) => ({ id: `${q.id}:${o.value}`, text: o.label })) },
+			traceId
+		);
+	}
+	return tool_send_whatsapp_list(
+		env,
+		{
+			to: phone,
+			body: q.text,
+			button: q.button || 'Ver opções',
+			sections: [{ title: 'Opções', rows: q.options.map((o) => ({ id: `${q.id}:${o.value}`, title: o.label })) }],
+		},
+		traceId
+	);
+}
+
+async function loadOnboarding(supabase: SupabaseClient, userId: string): Promise<OnboardingRow | null> {
+	const { data, error } = await supabase.from('onboarding_answers').select('*').eq('user_id', userId).maybeSingle();
+	if (error) {
+		console.error('Erro ao buscar onboarding:', error);
+		return null;
+	}
+	return (data as OnboardingRow) ?? null;
+}
+
+const onboardingAnswerLabel = (q: OnboardingQuestion, value?: string | null) =>
+	q.options.find((o) => o.value === value)?.label ?? value ?? '';
+
+const onboardingSummary = (row: OnboardingRow) =>
+	ONBOARDING_QUESTIONS.map((q) => `${q.label}: ${onboardingAnswerLabel(q, row[q.id])}`).join('; ');
+
+type OnboardingStep = {
+	ok: boolean;
+	error?: 'INVALID_ANSWER' | 'UNKNOWN_QUESTION';
+	row: OnboardingRow;
+	question?: OnboardingQuestion; // próxima pergunta (ou a mesma, se a resposta foi inválida)
+	sent?: SendResult;
+};
+
+// Valida a resposta, persiste e envia a próxima pergunta (ou a conclusão) pelo WhatsApp.
+// notify: false deixa o envio para quem chamou (ex.: o turno do agente, que responde com a pergunta em texto)
+async function advanceOnboarding(
+	env: TenantEnv,
+	supabase: SupabaseClient,
+	row: OnboardingRow,
+	answer: string,
+	opts: { questionId?: string; notify?: boolean } = {}
+): Promise<OnboardingStep> {
+	const traceId = crypto.randomUUID();
+	const notifyPhone = opts.notify === false ? null : row.phone;
+	const question = getOnboardingQuestion(opts.questionId || row.current_question);
+	if (!question) return { ok: false, error: 'UNKNOWN_QUESTION', row };
+
+	const value = normalizeOnboardingAnswer(question, answer);
+	if (!value) {
+		const sent = notifyPhone ? await sendOnboardingQuestion(env, notifyPhone, question, traceId) : undefined;
+		return { ok: false, error: 'INVALID_ANSWER', row, question, sent };
+	}
+
+	const updated: OnboardingRow = { ...row, [question.id]: value };
+	const next = ONBOARDING_QUESTIONS.find((q) => !updated[q.id]);
+	updated.current_question = next?.id ?? null;
+	if (!next) {
+		updated.status = 'completed';
+		updated.completed_at = new Date().toISOString();
+	}
+	const { error } = await supabase
+		.from('onboarding_answers')
+		.update({
+			[question.id]: value,
+			current_question: updated.current_question,
+			status: updated.status,
+			completed_at: updated.completed_at ?? null,
+		})
+		.eq('user_id', row.user_id);
+	if (error) throw new Error(`Erro ao salvar resposta do onboarding: ${error.message}`);
+
+	let sent: SendResult | undefined;
+	if (notifyPhone) {
+		sent = next
+			? await sendOnboardingQuestion(env, notifyPhone, next, traceId)
+			: await tool_send_whatsapp_text(env, { to: notifyPhone, text: ONBOARDING_DONE_TEXT }, traceId);
+	}
+	return { ok: true, row: updated, question: next, sent };
+}
+
+async function handleOnboardingStart(env: TenantEnv, body: any) {
+	const { userId, phone, orderId } = body || {};
+	if (!userId || !phone) return json({ ok: false, error: 'Missing userId or phone' }, 400);
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+
+	let row = await loadOnboarding(supabase, String(userId));
+	if (row?.status === 'completed') {
+		return json({ ok: true, status: row.status, answers: { goal: row.goal, location: row.location, training_time: row.training_time } });
+	}
+	if (!row) {
+		row = {
+			user_id: String(userId),
+			phone: normalizeBrazilianPhone(String(phone)),
+			order_id: orderId ? String(orderId) : null,
+			status: 'in_progress',
+			current_question: ONBOARDING_QUESTIONS[0].id,
+		};
+		const { error } = await supabase.from('onboarding_answers').insert([row]);
+		if (error) return json({ ok: false, error: 'ONBOARDING_SAVE_ERROR', detail: error.message }, 500);
+	}
+
+	// Retoma de onde o usuário parou
+	const question = getOnboardingQuestion(row.current_question) ?? ONBOARDING_QUESTIONS[0];
+	const sent = await sendOnboardingQuestion(env, row.phone || normalizeBrazilianPhone(String(phone)), question, crypto.randomUUID());
+	return json({ ok: true, status: row.status, question: question.id, sent });
+}
+
+async function handleOnboardingAnswer(env: TenantEnv, body: any) {
+	const { userId, questionId, answer } = body || {};
+	if (!userId || answer === undefined || answer === null) return json({ ok: false, error: 'Missing userId or answer' }, 400);
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+
+	const row = await loadOnboarding(supabase, String(userId));
+	if (!row) return json({ ok: false, error: 'ONBOARDING_NOT_STARTED' }, 404);
+	if (row.status === 'completed') return json({ ok: true, status: row.status });
+
+	const step = await advanceOnboarding(env, supabase, row, String(answer), { questionId: questionId ? String(questionId) : undefined });
+	if (!step.ok) {
+		return json({ ok: false, error: step.error, question: step.question?.id, options: step.question?.options.map((o) => o.value) }, step.error === 'UNKNOWN_QUESTION' ? 400 : 422);
+	}
+	return json({
+		ok: true,
+		status: step.row.status,
+		next: step.question?.id ?? null,
+		answers: { goal: step.row.goal, location: step.row.location, training_time: step.row.training_time },
+		sent: step.sent,
+	});
+}
+
+// ---------- Agenda de treinos (lembretes via Cron Trigger) ----------
+type Weekday = 'dom' | 'seg' | 'ter' | 'qua' | 'qui' | 'sex' | 'sab';
+
+interface TrainingScheduleRow {
+	user_id: string;
+	days: Weekday[];
+	timezone: string;
+	phone?: string | null;
+	paused?: boolean;
+	updated_at?: string;
+}
+
+const WEEKDAYS: Weekday[] = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sab'];
+const EN_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+const TRAINING_REMINDER_TEXT = 'Hoje é dia de treino! 💪 Bora manter o ritmo? Se precisar de ajuda com o treino de hoje, é só me chamar.';
+
+// Aceita "seg", "segunda", "Segunda-feira", "mon", "monday" ou 0..6 (0 = domingo)
+function normalizeWeekday(raw: unknown): Weekday | null {
+	if (typeof raw === 'number') return WEEKDAYS[raw] ?? null;
+	const s = normalizeText(String(raw ?? '')).slice(0, 3);
+	if ((WEEKDAYS as string[]).includes(s)) return s as Weekday;
+	const en = EN_WEEKDAYS.indexOf(s);
+	return en >= 0 ? WEEKDAYS[en] : null;
+}
+
+const normalizeWeekdays = (days: unknown): Weekday[] | null => {
+	if (!Array.isArray(days)) return null;
+	const out = days.map(normalizeWeekday);
+	if (out.some((d) => d === null)) return null;
+	return WEEKDAYS.filter((d) => out.includes(d));
+};
+
+const isValidTimezone = (tz: string) => {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: tz });
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+// Data/dia da semana/hora locais do usuário
+function localDateParts(date: Date, timeZone: string) {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+		weekday: 'short',
+		hour: '2-digit',
+		hourCycle: 'h23',
+	}).formatToParts(date);
+	const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+	return {
+		date: `${get('year')}-${get('month')}-${get('day')}`,
+		weekday: WEEKDAYS[EN_WEEKDAYS.indexOf(get('weekday').toLowerCase())],
+		hour: Number(get('hour')),
+	};
+}
+
+async function upsertTrainingSchedule(
+	supabase: SupabaseClient,
+	userId: string,
+	patch: Partial<Omit<TrainingScheduleRow, 'user_id'>>
+): Promise<TrainingScheduleRow> {
+	const { data: current } = await supabase.from('training_schedule').select('*').eq('user_id', userId).maybeSingle();
+	const row: TrainingScheduleRow = {
+		days: [],
+		timezone: DEFAULT_TIMEZONE,
+		paused: false,
+		...(current as TrainingScheduleRow | null),
+		...Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== undefined)),
+		user_id: userId,
+		updated_at: new Date().toISOString(),
+	};
+	const { error } = await supabase.from('training_schedule').upsert([row], { onConflict: 'user_id' });
+	if (error) throw new Error(`Erro ao salvar agenda de treino: ${error.message}`);
+	return row;
+}
+
+async function handleScheduleSet(env: TenantEnv, body: any) {
+	const { userId, days, tz, phone } = body || {};
+	if (!userId) return json({ ok: false, error: 'Missing userId' }, 400);
+	const normalizedDays = normalizeWeekdays(days);
+	if (!normalizedDays) return json({ ok: false, error: 'INVALID_DAYS', detail: 'Use days como ["seg","qua","sex"]' }, 400);
+	const timezone = tz ? String(tz) : DEFAULT_TIMEZONE;
+	if (!isValidTimezone(timezone)) return json({ ok: false, error: 'INVALID_TIMEZONE' }, 400);
+
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const schedule = await upsertTrainingSchedule(supabase, String(userId), {
+		days: normalizedDays,
+		timezone,
+		phone: phone ? normalizeBrazilianPhone(String(phone)) : undefined,
+	});
+	return json({ ok: true, schedule });
+}
+
+// Tool do agente: o usuário pausa/retoma ou troca os dias conversando
+async function tool_gerenciar_agenda_treino(
+	env: TenantEnv,
+	userId: string,
+	args: { acao: 'consultar' | 'definir_dias' | 'pausar' | 'retomar'; dias?: string[]; timezone?: string },
+	userPhone?: string
+) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	if (args?.acao === 'consultar') {
+		const { data } = await supabase.from('training_schedule').select('*').eq('user_id', userId).maybeSingle();
+		return { ok: true, schedule: data ?? null };
+	}
+	const patch: Partial<TrainingScheduleRow> = { phone: userPhone };
+	if (args?.acao === 'pausar') patch.paused = true;
+	else if (args?.acao === 'retomar') patch.paused = false;
+	else if (args?.acao === 'definir_dias') {
+		const days = normalizeWeekdays(args.dias);
+		if (!days || days.length === 0) return { ok: false, error: { code: 'INVALID_DAYS', detail: 'Informe dias como seg, qua, sex' } };
+		patch.days = days;
+		patch.paused = false;
+	} else {
+		return { ok: false, error: { code: 'INVALID_ACTION', detail: String(args?.acao) } };
+	}
+	if (args?.timezone) {
+		if (!isValidTimezone(args.timezone)) return { ok: false, error: { code: 'INVALID_TIMEZONE', detail: args.timezone } };
+		patch.timezone = args.timezone;
+	}
+	return { ok: true, schedule: await upsertTrainingSchedule(supabase, userId, patch) };
+}
+
+// Código do Postgres para violação de unique: o insert perdeu a corrida para outro Worker/disparo
+const isUniqueViolation = (error: { code?: string } | null) => error?.code === '23505';
+
+// Marca o lembrete do dia antes de enviar; training_reminders tem unique(user_id, reminder_date),
+// então um segundo disparo do cron no mesmo dia não reenvia. Outros erros do banco sobem: sem a
+// marca não há como garantir envio único.
+async function claimTrainingReminder(supabase: SupabaseClient, userId: string, reminderDate: string) {
+	const { error } = await supabase.from('training_reminders').insert([{ user_id: userId, reminder_date: reminderDate, status: 'pending' }]);
+	if (!error) return true;
+	if (isUniqueViolation(error)) return false;
+	throw new Error(`CLAIM_FAILED: ${error.message}`);
+}
+
+async function runTrainingReminders(env: TenantEnv, now: Date) {
+	if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return { sent: 0, skipped: 0, failed: 0 };
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const reminderHour = Number(env.TRAINING_REMINDER_HOUR ?? 7);
+	const stats = { sent: 0, skipped: 0, failed: 0 };
+
+	const { data: schedules, error } = await supabase.from('training_schedule').select('*').eq('paused', false);
+	if (error) {
+		console.error('Erro ao buscar agendas de treino:', error);
+		return stats;
+	}
+
+	for (const schedule of (schedules || []) as TrainingScheduleRow[]) {
+		const timezone = isValidTimezone(schedule.timezone) ? schedule.timezone : DEFAULT_TIMEZONE;
+		const local = localDateParts(now, timezone);
+		if (!schedule.days?.includes(local.weekday) || local.hour < reminderHour) continue;
+
+		let phone = schedule.phone;
+		if (!phone) phone = (await loadOnboarding(supabase, schedule.user_id))?.phone;
+		const userEnv = envForScopedId(env, schedule.user_id);
+		if (!phone || (await windowBlocksFreeText(userEnv, phone))) {
+			stats.skipped++;
+			continue;
+		}
+		try {
+			if (!(await claimTrainingReminder(supabase, schedule.user_id, local.date))) {
+				stats.skipped++;
+				continue;
+			}
+		} catch (e) {
+			console.error('Erro ao marcar lembrete de treino:', schedule.user_id, e);
+			stats.failed++;
+			continue;
+		}
+
+		const sent = await tool_send_whatsapp_text(userEnv, { to: phone, text: TRAINING_REMINDER_TEXT }, crypto.randomUUID(), {
+			idempotencyKey: `reminder:${schedule.user_id}:${local.date}`,
+		});
+		await supabase
+			.from('training_reminders')
+			.update({ status: sent.ok ? 'sent' : 'failed', sent_at: new Date().toISOString(), error: sent.error?.code ?? null })
+			.eq('user_id', schedule.user_id)
+			.eq('reminder_date', local.date);
+		if (sent.ok) stats.sent++;
+		else stats.failed++;
+	}
+	console.log('Lembretes de treino:', stats);
+	return stats;
+}
+
+// ---------- Follow-ups automáticos (user_activity_checker) ----------
+type FollowUpKind = 'inactivity' | 'app_access';
+
+interface UserActivityRow {
+	user_id: string;
+	phone?: string | null;
+	last_seen_at?: string | null;
+	last_app_access_at?: string | null;
+}
+
+interface FollowUpRow {
+	user_id: string;
+	kind: FollowUpKind;
+	template_id: string;
+	status: 'sent' | 'failed';
+	sent_at: string;
+}
+
+const FOLLOWUP_TEMPLATES: Record<FollowUpKind, { id: string; text: string }[]> = {
+	inactivity: [
+		{ id: 'inactivity_1', text: 'Oi! Senti sua falta por aqui 😊 Como estão os treinos? Se quiser, te ajudo a montar o treino de hoje.' },
+		{ id: 'inactivity_2', text: 'Passando pra lembrar que cada treino conta! 💪 Quer uma sugestão rápida pra hoje?' },
+		{ id: 'inactivity_3', text: 'Tudo bem por aí? Quando quiser retomar, é só me chamar que eu te ajudo a voltar ao ritmo. 🚀' },
+	],
+	app_access: [
+		{ id: 'app_access_1', text: 'Vi que você não abriu o app Weburn esta semana. Que tal separar 20 minutinhos hoje? Posso te indicar um programa! 📱' },
+		{ id: 'app_access_2', text: 'Seus programas no app Weburn estão te esperando! 🔥 Quer ajuda para escolher o treino da semana?' },
+	],
+};
+
+// Follow-ups só saem em horário comercial (fuso padrão)
+const FOLLOWUP_WINDOW = { startHour: 9, endHour: 21 };
+const DAY_MS = 24 * 60 * 60_000;
+
+const followUpConfig = (env: TenantEnv) => ({
+	inactivityDays: Number(env.FOLLOWUP_INACTIVITY_DAYS ?? 3),
+	appCheckDays: Number(env.FOLLOWUP_APP_CHECK_DAYS ?? 7),
+	// máximo de follow-ups sem resposta do usuário (zera quando ele volta a escrever)
+	maxPerUser: Number(env.FOLLOWUP_MAX_PER_USER ?? 3),
+});
+
+// Atualiza user_activity (best-effort: nunca falha a requisição)
+async function touchUserActivity(env: TenantEnv, userId: string, fields: Partial<Omit<UserActivityRow, 'user_id'>>) {
+	try {
+		if (!userId) return;
+		if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return;
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		const row = { user_id: userId, ...Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) };
+		const { error } = await supabase.from('user_activity').upsert([row], { onConflict: 'user_id' });
+		if (error) console.error('touchUserActivity error:', error);
+	} catch (err) {
+		console.error('touchUserActivity failed:', err);
+	}
+}
+
+async function handleAppAccess(env: TenantEnv, body: any) {
+	const { userId, accessedAt } = body || {};
+	if (!userId) return json({ ok: false, error: 'Missing userId' }, 400);
+	const at = accessedAt ? new Date(accessedAt) : new Date();
+	if (Number.isNaN(at.getTime())) return json({ ok: false, error: 'Invalid accessedAt' }, 400);
+	await touchUserActivity(env, String(userId), { last_app_access_at: at.toISOString() });
+	return json({ ok: true });
+}
+
+// Decide se o usuário deve receber follow-up agora (e qual)
+function pickFollowUp(
+	activity: UserActivityRow,
+	history: FollowUpRow[],
+	cfg: ReturnType<typeof followUpConfig>,
+	now: number
+): { kind: FollowUpKind; template: { id: string; text: string } } | null {
+	const lastSeen = activity.last_seen_at ? Date.parse(activity.last_seen_at) : 0;
+	// Só envios que saíram contam para o limite e a cadência: uma falha não gasta follow-up nem adia a próxima tentativa
+	const sent = history.filter((f) => f.status === 'sent');
+	const sinceLastSeen = sent.filter((f) => Date.parse(f.sent_at) > lastSeen);
+	if (sinceLastSeen.length >= cfg.maxPerUser) return null;
+
+	const lastOf = (kind: FollowUpKind) => Math.max(0, ...sent.filter((f) => f.kind === kind).map((f) => Date.parse(f.sent_at)));
+	const nextTemplate = (kind: FollowUpKind) => {
+		const templates = FOLLOWUP_TEMPLATES[kind];
+		return templates[sinceLastSeen.filter((f) => f.kind === kind).length % templates.length];
+	};
+
+	// 1) silêncio: um follow-up por ciclo de N dias sem mensagens
+	if (lastSeen && now - Math.max(lastSeen, lastOf('inactivity')) >= cfg.inactivityDays * DAY_MS) {
+		return { kind: 'inactivity', template: nextTemplate('inactivity') };
+	}
+	// 2) app: checagem semanal do último acesso
+	const lastAccess = activity.last_app_access_at ? Date.parse(activity.last_app_access_at) : 0;
+	if (now - lastAccess >= cfg.appCheckDays * DAY_MS && now - lastOf('app_access') >= cfg.appCheckDays * DAY_MS) {
+		return { kind: 'app_access', template: nextTemplate('app_access') };
+	}
+	return null;
+}
+
+async function runFollowUps(env: TenantEnv, now: Date) {
+	const stats = { sent: 0, skipped: 0, failed: 0 };
+	if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return stats;
+	const local = localDateParts(now, DEFAULT_TIMEZONE);
+	if (local.hour < FOLLOWUP_WINDOW.startHour || local.hour >= FOLLOWUP_WINDOW.endHour) return stats;
+
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const cfg = followUpConfig(env);
+	const inactiveCutoff = new Date(now.getTime() - cfg.inactivityDays * DAY_MS).toISOString();
+	const appCutoff = new Date(now.getTime() - cfg.appCheckDays * DAY_MS).toISOString();
+
+	const queries = await Promise.all([
+		supabase.from('user_activity').select('*').lt('last_seen_at', inactiveCutoff),
+		supabase.from('user_activity').select('*').lt('last_app_access_at', appCutoff),
+		supabase.from('user_activity').select('*').is('last_app_access_at', null),
+	]);
+	const candidates = new Map<string, UserActivityRow>();
+	for (const { data, error } of queries) {
+		if (error) console.error('Erro ao buscar user_activity:', error);
+		for (const row of (data || []) as UserActivityRow[]) candidates.set(row.user_id, row);
+	}
+
+	for (const activity of candidates.values()) {
+		const { data: history } = await supabase
+			.from('follow_ups')
+			.select('*')
+			.eq('user_id', activity.user_id)
+			.gte('sent_at', new Date(now.getTime() - Math.max(cfg.inactivityDays, cfg.appCheckDays, 30) * DAY_MS).toISOString());
+		const pick = pickFollowUp(activity, (history || []) as FollowUpRow[], cfg, now.getTime());
+		if (!pick) continue;
+
+		const phone = activity.phone || (await loadOnboarding(supabase, activity.user_id))?.phone;
+		const userEnv = envForScopedId(env, activity.user_id);
+		if (!phone || (await windowBlocksFreeText(userEnv, phone))) {
+			stats.skipped++;
+			continue;
+		}
+		const sent = await tool_send_whatsapp_text(userEnv, { to: phone, text: pick.template.text }, crypto.randomUUID(), {
+			idempotencyKey: `followup:${activity.user_id}:${pick.template.id}:${now.toISOString().slice(0, 10)}`,
+		});
+		// A janela pode ter fechado entre a checagem e o envio: recusa não é follow-up enviado nem falha
+		if (sent.error?.code === 'OUTSIDE_24H_WINDOW') {
+			stats.skipped++;
+			continue;
+		}
+		const record: FollowUpRow = {
+			user_id: activity.user_id,
+			kind: pick.kind,
+			template_id: pick.template.id,
+			status: sent.ok ? 'sent' : 'failed',
+			sent_at: now.toISOString(),
+		};
+		const { error } = await supabase.from('follow_ups').insert([record]);
+		if (error) console.error('Erro ao registrar follow-up:', error);
+		if (sent.ok) stats.sent++;
+		else stats.failed++;
+	}
+	console.log('Follow-ups:', stats);
+	return stats;
+}
+
+// ---------- Base de conhecimento (knowledge_base_handler) ----------
+type KnowledgeChunk = {
+	id: string;
+	documentId: string;
+	title: string;
+	source?: string;
+	chunkIndex: number;
+	content: string;
+	embedding: number[];
+};
+
+type KnowledgeMatch = Omit<KnowledgeChunk, 'embedding'> & { score: number };
+
+// Backend vetorial plugável: pgvector (Supabase) em produção, memória para testes/dev local
+interface VectorStore {
+	upsert(chunks: KnowledgeChunk[]): Promise<void>;
+	query(embedding: number[], topK: number): Promise<KnowledgeMatch[]>;
+}
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const KNOWLEDGE_CHUNK_SIZE = 1000;
+const KNOWLEDGE_CHUNK_OVERLAP = 150;
+const KNOWLEDGE_MIN_SCORE = 0.2;
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+	let dot = 0;
+	let na = 0;
+	let nb = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		na += a[i] * a[i];
+		nb += b[i] * b[i];
+	}
+	return na && nb ? dot / (Math.sqrt(na) * Math.sqrt(nb)) : 0;
+};
+
+function createInMemoryVectorStore(): VectorStore {
+	const chunks = new Map<string, KnowledgeChunk>();
+	return {
+		async upsert(items) {
+			for (const c of items) chunks.set(c.id, c);
+		},
+		async query(embedding, topK) {
+			return [...chunks.values()]
+				.map(({ embedding: e, ...rest }) => ({ ...rest, score: cosineSimilarity(embedding, e) }))
+				.sort((a, b) => b.score - a.score)
+				.slice(0, topK);
+		},
+	};
+}
+
+// Linha devolvida pela RPC match_knowledge_chunks
+type KnowledgeMatchRow = {
+	id: string;
+	document_id: string;
+	title: string;
+	source: string | null;
+	chunk_index: number;
+	content: string;
+	similarity: number;
+};
+
+// Requer a tabela knowledge_chunks (embedding vector(1536)) e a RPC match_knowledge_chunks
+function createPgVectorStore(supabase: SupabaseClient, tenantId: string): VectorStore {
+	return {
+		async upsert(items) {
+			const rows = items.map((c) => ({
+				id: c.id,
+				document_id: c.documentId,
+				title: c.title,
+				source: c.source ?? null,
+				chunk_index: c.chunkIndex,
+				content: c.content,
+				embedding: c.embedding,
+				tenant_id: tenantId,
+			}));
+			const { error } = await supabase.from('knowledge_chunks').upsert(rows, { onConflict: 'id' });
+			if (error) throw new Error(`Erro ao salvar chunks: ${error.message}`);
+		},
+		async query(embedding, topK) {
+			const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+				query_embedding: embedding,
+				match_count: topK,
+				filter_tenant_id: tenantId,
+			});
+			if (error) throw new Error(`Erro na busca vetorial: ${error.message}`);
+			return ((data || []) as KnowledgeMatchRow[]).map((r) => ({
+				id: r.id,
+				documentId: r.document_id,
+				title: r.title,
+				source: r.source ?? undefined,
+				chunkIndex: r.chunk_index,
+				content: r.content,
+				score: r.similarity,
+			}));
+		},
+	};
+}
+
+// Uma base por tenant
+const memoryVectorStores = new Map<string, VectorStore>();
+
+function getVectorStore(env: TenantEnv): VectorStore {
+	const tenantId = env.tenant.id;
+	if (env.KNOWLEDGE_STORE !== 'memory') return createPgVectorStore(createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY), tenantId);
+	if (!memoryVectorStores.has(tenantId)) memoryVectorStores.set(tenantId, createInMemoryVectorStore());
+	return memoryVectorStores.get(tenantId)!;
+}
+
+// Divide por parágrafos até ~KNOWLEDGE_CHUNK_SIZE caracteres, com sobreposição entre chunks
+function chunkText(text: string, size = KNOWLEDGE_CHUNK_SIZE, overlap = KNOWLEDGE_CHUNK_OVERLAP): string[] {
+	const paragraphs = text
+		.replace(/\r\n/g, '\n')
+		.split(/\n{2,}/)
+		.map((p) => p.trim())
+		.filter(Boolean);
+	const chunks: string[] = [];
+	let current = '';
+	const flush = () => {
+		if (current.trim()) chunks.push(current.trim());
+		current = '';
+	};
+	for (const p of paragraphs) {
+		if (p.length > size) {
+			flush();
+			for (let i = 0; i < p.length; i += size - overlap) chunks.push(p.slice(i, i + size));
+			continue;
+		}
+		if (current && current.length + p.length + 2 > size) {
+			const tail = current.slice(-overlap);
+			flush();
+			current = `${tail}\n\n${p}`;
+		} else {
+			current = current ? `${current}\n\n${p}` : p;
+		}
+	}
+	flush();
+	return chunks;
+}
+
+async function embedTexts(openai: OpenAI, inputs: string[]): Promise<number[][]> {
+	const out: number[][] = [];
+	for (let i = 0; i < inputs.length; i += 96) {
+		const res = await openai.embeddings.create({ model: EMBEDDING_MODEL, input: inputs.slice(i, i + 96) });
+		out.push(...res.data.map((d) => d.embedding));
+	}
+	return out;
+}
+
+// Aceita JSON { title, text | docUrl | base64, mimeType?, filename?, source? } ou multipart/form-data com "file";
+// arquivos em PDF, DOCX ou text/* passam pelos mesmos extratores do /multimodal/doc
+async function readKnowledgeInput(request: Request): Promise<{ title?: string; source?: string; text?: string; error?: Response }> {
+	const ct = request.headers.get('content-type') || '';
+	let title: string | undefined;
+	let source: string | undefined;
+	let bytes: Uint8Array;
+	let contentType: string;
+	let filename: string;
+	if (ct.startsWith('multipart/form-data')) {
+		const form = await request.formData();
+		const file = form.get('file');
+		if (!file || typeof file === 'string') return { error: json({ ok: false, error: 'Missing file' }, 400) };
+		title = String(form.get('title') || file.name);
+		source = String(form.get('source') || file.name);
+		bytes = new Uint8Array(await file.arrayBuffer());
+		contentType = file.type || 'text/plain';
+		filename = file.name;
+	} else {
+		let body: any = {};
+		try {
+			body = await request.json();
+		} catch {
+			return { error: json({ ok: false, error: 'Invalid JSON body' }, 400) };
+		}
+		const { text, docUrl, base64, mimeType } = body || {};
+		({ title, source } = body || {});
+		filename = String(body?.filename || docUrl || '');
+		if (text) return { title, source, text: String(text) };
+		if (base64) {
+			if (!isValidBase64(String(base64))) return { error: json({ ok: false, error: 'Invalid base64' }, 400) };
+			bytes = base64ToBytes(String(base64));
+			contentType = String(mimeType || 'text/plain');
+		} else if (docUrl) {
+			const res = await fetch(String(docUrl));
+			if (!res.ok) return { error: json({ ok: false, error: `Failed to fetch doc (${res.status})` }, 400) };
+			if (Number(res.headers.get('content-length') || 0) > DOC_MAX_BYTES) return { error: json({ ok: false, error: 'DOC_TOO_LARGE' }, 413) };
+			contentType = String(mimeType || res.headers.get('content-type') || '');
+			bytes = new Uint8Array(await res.arrayBuffer());
+			title ||= String(docUrl);
+			source ||= String(docUrl);
+		} else {
+			return { error: json({ ok: false, error: 'Missing text, docUrl or base64' }, 400) };
+		}
+	}
+	const doc = await documentFromBytes(bytes, contentType, filename);
+	if (doc instanceof Response) return { error: doc };
+	return { title, source, text: doc.text };
+}
+
+async function handleKnowledgeIngest(request: Request, env: TenantEnv, openai: OpenAI) {
+	const input = await readKnowledgeInput(request);
+	if (input.error) return input.error;
+	const text = (input.text || '').trim();
+	if (!text) return json({ ok: false, error: 'Empty document' }, 400);
+
+	const documentId = crypto.randomUUID();
+	const title = input.title ? String(input.title) : 'Material Weburn';
+	const pieces = chunkText(text);
+	const embeddings = await embedTexts(openai, pieces);
+	await getVectorStore(env).upsert(
+		pieces.map((content, i) => ({
+			id: `${documentId}:${i}`,
+			documentId,
+			title,
+			source: input.source ? String(input.source) : undefined,
+			chunkIndex: i,
+			content,
+			embedding: embeddings[i],
+		}))
+	);
+	return json({ ok: true, documentId, title, chunks: pieces.length, model: EMBEDDING_MODEL });
+}
+
+async function tool_consultar_base_conhecimento(env: TenantEnv, openai: OpenAI, args: { pergunta: string; max_resultados?: number }) {
+	try {
+		if (!args?.pergunta) return { ok: false, error: { code: 'MISSING_QUESTION' } };
+		const topK = Math.min(Math.max(Number(args.max_resultados) || 4, 1), 8);
+		const [embedding] = await embedTexts(openai, [String(args.pergunta)]);
+		const matches = (await getVectorStore(env).query(embedding, topK)).filter((m) => m.score >= KNOWLEDGE_MIN_SCORE);
+		if (matches.length === 0) {
+			return { ok: true, passagens: [], instrucao: 'Nada encontrado no material Weburn: diga isso ao usuário em vez de inventar.' };
+		}
+		return {
+			ok: true,
+			passagens: matches.map((m, i) => ({
+				ref: `[${i + 1}]`,
+				titulo: m.title,
+				fonte: m.source,
+				trecho: m.content,
+				score: Number(m.score.toFixed(3)),
+			})),
+			instrucao: 'Responda apenas com base nas passagens e cite as referências [n] com o título do material.',
+		};
+	} catch (e: any) {
+		return { ok: false, error: { code: 'KNOWLEDGE_ERROR', detail: e?.message || String(e) } };
+	}
+}
+
+// ---------- Perfil do usuário (memória de longo prazo) ----------
+// Fatos estáveis sobre o usuário, extraídos após cada turno e editáveis pelo modelo via tools.
+// Chaves em português para casar com os argumentos de buscar_programas_weburn.
+type UserProfile = {
+	nome?: string;
+	nivel?: 'Iniciante' | 'Intermediário' | 'Avançado';
+	modalidades?: string[];
+	possui_equipamentos?: boolean;
+	equipamentos?: string[];
+	objetivos?: string[];
+	restricoes?: string[];
+	dias_preferidos?: Weekday[];
+	// Metas nutricionais diárias (comparadas com o diário alimentar)
+	meta_calorias?: number;
+	meta_proteinas_g?: number;
+	meta_carboidratos_g?: number;
+	meta_gorduras_g?: number;
+};
+
+interface UserProfileRow {
+	user_id: string;
+	profile: UserProfile;
+	updated_at?: string;
+}
+
+const USER_PROFILE_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		nome: { type: 'string', description: 'Como o usuário gosta de ser chamado' },
+		nivel: { type: 'string', enum: ['Iniciante', 'Intermediário', 'Avançado'], description: 'Nível de treino' },
+		modalidades: { type: 'array', items: { type: 'string' }, description: 'Modalidades preferidas (ex.: HIIT, Yoga, Musculação)' },
+		possui_equipamentos: { type: 'boolean', description: 'Se tem equipamentos para treinar' },
+		equipamentos: { type: 'array', items: { type: 'string' }, description: 'Equipamentos disponíveis (ex.: halteres, elástico)' },
+		objetivos: { type: 'array', items: { type: 'string' }, description: 'Objetivos (ex.: emagrecer, ganhar massa)' },
+		restricoes: { type: 'array', items: { type: 'string' }, description: 'Lesões, dores ou restrições médicas/alimentares' },
+		dias_preferidos: { type: 'array', items: { type: 'string', enum: WEEKDAYS }, description: 'Dias preferidos para treinar' },
+		meta_calorias: { type: 'integer', minimum: 0, description: 'Meta diária de calorias (kcal)' },
+		meta_proteinas_g: { type: 'integer', minimum: 0, description: 'Meta diária de proteínas (g)' },
+		meta_carboidratos_g: { type: 'integer', minimum: 0, description: 'Meta diária de carboidratos (g)' },
+		meta_gorduras_g: { type: 'integer', minimum: 0, description: 'Meta diária de gorduras (g)' },
+	},
+	additionalProperties: false,
+};
+
+async function loadUserProfile(supabase: SupabaseClient, userId: string): Promise<UserProfile> {
+	const { data } = await supabase.from('user_profiles').select('*').eq('user_id', userId).maybeSingle();
+	return ((data as UserProfileRow | null)?.profile || {}) as UserProfile;
+}
+
+// Mantém só os campos válidos pelo schema (o extrator pode devolver lixo parcial)
+function sanitizeProfilePatch(raw: unknown): Partial<UserProfile> {
+	if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+	const patch: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+		const schema = USER_PROFILE_SCHEMA.properties?.[key];
+		if (!schema || value === null || value === undefined) continue;
+		const normalized = key === 'dias_preferidos' && Array.isArray(value) ? normalizeWeekdays(value) : value;
+		if (validateAgainstSchema(schema, normalized).length === 0) patch[key] = normalized;
+	}
+	return patch as Partial<UserProfile>;
+}
+
+async function updateUserProfile(supabase: SupabaseClient, userId: string, patch: Partial<UserProfile>) {
+	const current = await loadUserProfile(supabase, userId);
+	const profile = { ...current, ...patch };
+	const row: UserProfileRow = { user_id: userId, profile, updated_at: new Date().toISOString() };
+	const { error } = await supabase.from('user_profiles').upsert([row], { onConflict: 'user_id' });
+	if (error) throw new Error(`Erro ao salvar perfil: ${error.message}`);
+	return profile;
+}
+
+function formatUserProfile(profile: UserProfile) {
+	const list = (v?: string[]) => (v && v.length > 0 ? v.join(', ') : undefined);
+	const parts: [string, string | undefined][] = [
+		['Nome', profile.nome],
+		['Nível', profile.nivel],
+		['Modalidades', list(profile.modalidades)],
+		['Tem equipamentos', profile.possui_equipamentos === undefined ? undefined : profile.possui_equipamentos ? 'sim' : 'não'],
+		['Equipamentos', list(profile.equipamentos)],
+		['Objetivos', list(profile.objetivos)],
+		['Restrições', list(profile.restricoes)],
+		['Dias preferidos', list(profile.dias_preferidos)],
+		['Meta diária', profile.meta_calorias ? `${profile.meta_calorias} kcal` : undefined],
+	];
+	return parts
+		.filter(([, v]) => v)
+		.map(([k, v]) => `${k}: ${v}`)
+		.join('; ');
+}
+
+// Extração após o turno: o modelo devolve só os campos novos ou alterados
+async function extractProfileUpdates(env: TenantEnv, profile: UserProfile, userMessage: string, assistantResponse: string) {
+	const { result: completion } = await withModelFallback(env, 'profile', (client, target) =>
+		client.chat.completions.create({
+			model: target.model,
+			messages: [
+				{
+					role: 'system',
+					content:
+						'Extraia fatos estáveis sobre o usuário (nome, nível, modalidades, equipamentos, objetivos, lesões/restrições, dias preferidos de treino, metas nutricionais diárias). ' +
+						'Responda com um JSON contendo só os campos novos ou alterados em relação ao perfil atual; listas vêm completas. Sem fatos novos, responda {}.',
+				},
+				{
+					role: 'user',
+					content: `Perfil atual: ${JSON.stringify(profile)}\n\nUsuário: ${userMessage}\nPerso: ${assistantResponse}`,
+				},
+			],
+			response_format: { type: 'json_schema', json_schema: { name: 'perfil_usuario', schema: USER_PROFILE_SCHEMA as Record<string, unknown> } },
+			temperature: target.temperature,
+			max_tokens: target.maxTokens,
+		})
+	);
+	return sanitizeProfilePatch(JSON.parse(completion.choices[0].message.content || '{}'));
+}
+
+// Best-effort: falha na extração não afeta a resposta já entregue
+async function refreshUserProfile(env: TenantEnv, userId: string, profile: UserProfile, userMessage: string, assistantResponse: string) {
+	try {
+		const patch = await extractProfileUpdates(env, profile, userMessage, assistantResponse);
+		if (Object.keys(patch).length === 0) return;
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		await updateUserProfile(supabase, userId, patch);
+		console.log('Perfil atualizado:', userId, Object.keys(patch));
+	} catch (e) {
+		console.error('Erro ao atualizar perfil do usuário:', e);
+	}
+}
+
+async function tool_consultar_perfil_usuario(env: TenantEnv, userId: string) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	return { ok: true, perfil: await loadUserProfile(supabase, userId) };
+}
+
+async function tool_atualizar_perfil_usuario(env: TenantEnv, userId: string, args: Partial<UserProfile>) {
+	const patch = sanitizeProfilePatch(args);
+	if (Object.keys(patch).length === 0) return { ok: false, error: { code: 'EMPTY_UPDATE', detail: 'Nenhum campo válido para atualizar' } };
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	return { ok: true, perfil: await updateUserProfile(supabase, userId, patch) };
+}
+
+// ---------- Diário alimentar (refeições por foto) ----------
+// Foto de refeição → alimentos, porções, calorias e macros estimados (saída estruturada) → food_log.
+// Os totais do dia/semana são comparados com as metas diárias do perfil (meta_calorias, meta_*_g).
+type MealType = 'cafe_da_manha' | 'almoco' | 'lanche' | 'jantar' | 'ceia';
+
+type Macros = { calorias: number; proteinas_g: number; carboidratos_g: number; gorduras_g: number };
+
+type MealFood = Macros & { nome: string; porcao: string; gramas: number | null };
+
+type MealAnalysis = {
+	eh_refeicao: boolean;
+	descricao: string;
+	refeicao: MealType | null;
+	alimentos: MealFood[];
+	totais: Macros;
+	// 0–1: quão confiável é a estimativa (foto nítida, porções visíveis)
+	confianca: number;
+};
+
+interface FoodLogRow {
+	id: string;
+	user_id: string;
+	local_date: string; // YYYY-MM-DD no fuso do usuário
+	eaten_at: string;
+	meal_type: MealType;
+	foods: MealFood[];
+	calories: number;
+	protein_g: number;
+	carbs_g: number;
+	fat_g: number;
+	confidence: number;
+	image_url?: string | null;
+	created_at?: string;
+}
+
+const MEAL_TYPES: MealType[] = ['cafe_da_manha', 'almoco', 'lanche', 'jantar', 'ceia'];
+const MEAL_LABELS: Record<MealType, string> = {
+	cafe_da_manha: 'café da manhã',
+	almoco: 'almoço',
+	lanche: 'lanche',
+	jantar: 'jantar',
+	ceia: 'ceia',
+};
+const MACRO_KEYS: (keyof Macros)[] = ['calorias', 'proteinas_g', 'carboidratos_g', 'gorduras_g'];
+const MEAL_ANALYSIS_MAX_TOKENS = 900;
+
+const MEAL_ANALYSIS_SCHEMA: JsonSchema = {
+	type: 'object',
+	properties: {
+		eh_refeicao: { type: 'boolean', description: 'Se a foto mostra comida ou bebida que o usuário vai consumir/consumiu' },
+		descricao: { type: 'string', description: 'Descrição objetiva da imagem (também quando não é refeição)' },
+		refeicao: { type: 'string', enum: MEAL_TYPES, description: 'Tipo de refeição, se der para inferir' },
+		alimentos: {
+			type: 'array',
+			items: {
+				type: 'object',
+				properties: {
+					nome: { type: 'string' },
+					porcao: { type: 'string', description: 'Porção em medida caseira (ex.: 4 colheres de sopa)' },
+					gramas: { type: 'number' },
+					calorias: { type: 'number' },
+					proteinas_g: { type: 'number' },
+					carboidratos_g: { type: 'number' },
+					gorduras_g: { type: 'number' },
+				},
+				required: ['nome', 'porcao', 'calorias', 'proteinas_g', 'carboidratos_g', 'gorduras_g'],
+			},
+		},
+		confianca: { type: 'number', minimum: 0, maximum: 1, description: 'Confiança na estimativa, de 0 a 1' },
+	},
+	required: ['eh_refeicao', 'descricao', 'alimentos', 'confianca'],
+	additionalProperties: false,
+};
+
+const MEAL_ANALYSIS_PROMPT =
+	'Analise a foto como nutricionista. Se for uma refeição, liste cada alimento com porção estimada (medida caseira e gramas), ' +
+	'calorias e macros (proteínas, carboidratos, gorduras) e dê uma confiança de 0 a 1 (baixa se a porção não estiver clara). ' +
+	'Se não for comida, responda eh_refeicao=false, só com a descrição e alimentos vazio.';
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const sumMacros = (items: Macros[]): Macros =>
+	Object.fromEntries(MACRO_KEYS.map((k) => [k, round1(items.reduce((n, item) => n + (item[k] || 0), 0))])) as Macros;
+
+// Refeição pelo horário local quando o modelo não informa
+const mealTypeForHour = (hour: number): MealType => {
+	if (hour >= 5 && hour < 11) return 'cafe_da_manha';
+	if (hour >= 11 && hour < 15) return 'almoco';
+	if (hour >= 15 && hour < 18) return 'lanche';
+	if (hour >= 18 && hour < 22) return 'jantar';
+	return 'ceia';
+};
+
+// Números negativos/ausentes viram 0; os totais são sempre a soma dos itens (não o que o modelo somou)
+function sanitizeMealAnalysis(raw: any): MealAnalysis {
+	const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? round1(v) : 0);
+	const alimentos: MealFood[] = (Array.isArray(raw?.alimentos) ? raw.alimentos : [])
+		.filter((f: any) => f && typeof f.nome === 'string' && f.nome.trim())
+		.map((f: any) => ({
+			nome: f.nome.trim(),
+			porcao: typeof f.porcao === 'string' ? f.porcao.trim() : '',
+			gramas: num(f.gramas) || null,
+			...(Object.fromEntries(MACRO_KEYS.map((k) => [k, num(f[k])])) as Macros),
+		}));
+	return {
+		eh_refeicao: raw?.eh_refeicao === true && alimentos.length > 0,
+		descricao: typeof raw?.descricao === 'string' ? raw.descricao.trim() : '',
+		refeicao: MEAL_TYPES.includes(raw?.refeicao) ? raw.refeicao : null,
+		alimentos,
+		totais: sumMacros(alimentos),
+		confianca: Math.min(1, num(raw?.confianca)),
+	};
+}
+
+// imageUrl pode ser um data URL (base64); note = legenda ou mensagem do usuário
+async function analyzeMeal(env: TenantEnv, imageUrl: string, note?: string) {
+	const { result: completion, used } = await withModelFallback(env, 'vision', (client, target) =>
+		client.chat.completions.create({
+			model: target.model,
+			messages: [
+				{
+					role: 'user',
+					content: [
+						{ type: 'text', text: note ? `${MEAL_ANALYSIS_PROMPT}\nMensagem do usuário: ${note}` : MEAL_ANALYSIS_PROMPT },
+						{ type: 'image_url', image_url: { url: imageUrl } },
+					],
+				},
+			],
+			response_format: {
+				type: 'json_schema',
+				json_schema: { name: 'analise_refeicao', schema: MEAL_ANALYSIS_SCHEMA as Record<string, unknown> },
+			},
+			temperature: target.temperature,
+			max_tokens: Math.max(target.maxTokens ?? 0, MEAL_ANALYSIS_MAX_TOKENS),
+		})
+	);
+	return { analysis: sanitizeMealAnalysis(JSON.parse(completion.choices[0]?.message?.content || '{}')), used };
+}
+
+// Fuso da agenda de treinos do usuário, senão o padrão
+async function userTimezone(supabase: SupabaseClient, userId: string) {
+	const { data } = await supabase.from('training_schedule').select('timezone').eq('user_id', userId).maybeSingle();
+	const timezone = (data as Pick<TrainingScheduleRow, 'timezone'> | null)?.timezone;
+	return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+// opts.id fixo (ex.: derivado da foto) torna o registro idempotente: repetir devolve a linha já salva
+async function logMeal(
+	env: TenantEnv,
+	userId: string,
+	analysis: MealAnalysis,
+	opts: { id?: string; imageUrl?: string; eatenAt?: Date } = {}
+) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const eatenAt = opts.eatenAt ?? new Date();
+	const local = localDateParts(eatenAt, await userTimezone(supabase, userId));
+	const row: FoodLogRow = {
+		id: opts.id ?? crypto.randomUUID(),
+		user_id: userId,
+		local_date: local.date,
+		eaten_at: eatenAt.toISOString(),
+		meal_type: analysis.refeicao ?? mealTypeForHour(local.hour),
+		foods: analysis.alimentos,
+		calories: analysis.totais.calorias,
+		protein_g: analysis.totais.proteinas_g,
+		carbs_g: analysis.totais.carboidratos_g,
+		fat_g: analysis.totais.gorduras_g,
+		confidence: analysis.confianca,
+		// data URLs não vão para o banco
+		image_url: opts.imageUrl?.startsWith('http') ? opts.imageUrl : null,
+	};
+	const { error } = await supabase.from('food_log').insert([row]);
+	if (error && opts.id && isUniqueViolation(error)) {
+		const { data } = await supabase.from('food_log').select('*').eq('id', opts.id).maybeSingle();
+		if (data) return data as FoodLogRow;
+	}
+	if (error) throw new Error(`Erro ao salvar refeição: ${error.message}`);
+	return row;
+}
+
+const rowMacros = (r: FoodLogRow): Macros => ({
+	calorias: r.calories,
+	proteinas_g: r.protein_g,
+	carboidratos_g: r.carbs_g,
+	gorduras_g: r.fat_g,
+});
+
+// Metas diárias do perfil (só as definidas); null sem nenhuma meta
+function nutritionGoal(profile: UserProfile): Partial<Macros> | null {
+	const goal: Partial<Macros> = {};
+	if (profile.meta_calorias) goal.calorias = profile.meta_calorias;
+	if (profile.meta_proteinas_g) goal.proteinas_g = profile.meta_proteinas_g;
+	if (profile.meta_carboidratos_g) goal.carboidratos_g = profile.meta_carboidratos_g;
+	if (profile.meta_gorduras_g) goal.gorduras_g = profile.meta_gorduras_g;
+	return Object.keys(goal).length > 0 ? goal : null;
+}
+
+const remainingToGoal = (goal: Partial<Macros> | null, totals: Macros) =>
+	goal ? Object.fromEntries(Object.entries(goal).map(([k, v]) => [k, round1(v! - totals[k as keyof Macros])])) : null;
+
+const shiftDate = (date: string, days: number) => {
+	const d = new Date(`${date}T00:00:00Z`);
+	d.setUTCDate(d.getUTCDate() + days);
+	return d.toISOString().slice(0, 10);
+};
+
+const formatMacros = (m: Macros) =>
+	`${Math.round(m.calorias)} kcal · P ${Math.round(m.proteinas_g)} g · C ${Math.round(m.carboidratos_g)} g · G ${Math.round(m.gorduras_g)} g`;
+
+// Resumo da refeição analisada (entra no turno do agente e no histórico)
+function formatMealNote(analysis: MealAnalysis, row: FoodLogRow | null, day?: { totals: Macros; goal: Partial<Macros> | null }) {
+	const foods = analysis.alimentos.map((f) => `${f.nome}${f.porcao ? ` (${f.porcao})` : ''} ${Math.round(f.calorias)} kcal`).join('; ');
+	const meal = row ? MEAL_LABELS[row.meal_type] : analysis.refeicao ? MEAL_LABELS[analysis.refeicao] : 'refeição';
+	const lines = [
+		`${row ? 'Refeição registrada no diário' : 'Refeição analisada'} (${meal}, confiança ${Math.round(analysis.confianca * 100)}%):`,
+		`${foods}.`,
+		`Total: ${formatMacros(analysis.totais)}.`,
+	];
+	if (day) lines.push(`Dia até agora: ${formatMacros(day.totals)}${day.goal?.calorias ? ` (meta ${day.goal.calorias} kcal)` : ''}.`);
+	return lines.join('\n');
+}
+
+async function loadFoodLog(supabase: SupabaseClient, userId: string, from: string, to: string) {
+	const { data, error } = await supabase.from('food_log').select('*').eq('user_id', userId).gte('local_date', from).lte('local_date', to);
+	if (error) throw new Error(`Erro ao consultar diário alimentar: ${error.message}`);
+	return ((data || []) as FoodLogRow[]).sort((a, b) => a.eaten_at.localeCompare(b.eaten_at));
+}
+
+// Totais do dia da refeição contra a meta (para a nota do turno)
+async function dayNutrition(env: TenantEnv, userId: string, date: string) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const [rows, profile] = await Promise.all([loadFoodLog(supabase, userId, date, date), loadUserProfile(supabase, userId)]);
+	return { totals: sumMacros(rows.map(rowMacros)), goal: nutritionGoal(profile) };
+}
+
+// Foto do turno (1 = primeira; padrão: a última) → análise nutricional → diário alimentar. O id vem da foto:
+// chamar de novo com a mesma imagem devolve o registro existente em vez de duplicar a refeição
+async function tool_registrar_refeicao_foto(
+	env: TenantEnv,
+	userId: string,
+	images: string[],
+	args: { foto?: number; observacao?: string }
+) {
+	const imageUrl = images[(args.foto ?? images.length) - 1];
+	if (!imageUrl) return toolError('NO_IMAGE', images.length ? `Só há ${images.length} foto(s) neste turno` : 'Nenhuma foto neste turno');
+	const { analysis } = await analyzeMeal(env, imageUrl, args.observacao);
+	if (!analysis.eh_refeicao) return toolError('NOT_A_MEAL', analysis.descricao);
+	const id = `${userId}:${(await sha256Hex(imageUrl)).slice(0, 32)}`;
+	const row = await logMeal(env, userId, analysis, { id, imageUrl });
+	return { ok: true, id: row.id, registro: formatMealNote(analysis, row, await dayNutrition(env, userId, row.local_date)) };
+}
+
+async function tool_consultar_diario_alimentar(env: TenantEnv, userId: string, args: { periodo?: 'dia' | 'semana'; data?: string }) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const [timezone, profile] = await Promise.all([userTimezone(supabase, userId), loadUserProfile(supabase, userId)]);
+	const date = args.data && /^\d{4}-\d{2}-\d{2}$/.test(args.data) ? args.data : localDateParts(new Date(), timezone).date;
+	const goal = nutritionGoal(profile);
+
+	if (args.periodo !== 'semana') {
+		const rows = await loadFoodLog(supabase, userId, date, date);
+		const totais = sumMacros(rows.map(rowMacros));
+		return {
+			ok: true,
+			periodo: 'dia',
+			data: date,
+			refeicoes: rows.map((r) => ({
+				refeicao: MEAL_LABELS[r.meal_type],
+				horario: r.eaten_at,
+				alimentos: r.foods.map((f) => f.nome),
+				...rowMacros(r),
+				confianca: r.confidence,
+			})),
+			totais,
+			meta: goal,
+			restante: remainingToGoal(goal, totais),
+		};
+	}
+
+	// Semana: os 7 dias terminando em `data`, com a média só dos dias que têm registro
+	const from = shiftDate(date, -6);
+	const rows = await loadFoodLog(supabase, userId, from, date);
+	const dias = Array.from({ length: 7 }, (_, i) => {
+		const day = shiftDate(from, i);
+		const dayRows = rows.filter((r) => r.local_date === day);
+		return { data: day, refeicoes: dayRows.length, ...sumMacros(dayRows.map(rowMacros)) };
+	});
+	const registrados = dias.filter((d) => d.refeicoes > 0);
+	const totais = sumMacros(registrados);
+	const media = Object.fromEntries(MACRO_KEYS.map((k) => [k, registrados.length ? round1(totais[k] / registrados.length) : 0])) as Macros;
+	return {
+		ok: true,
+		periodo: 'semana',
+		de: from,
+		ate: date,
+		dias,
+		dias_com_registro: registrados.length,
+		totais,
+		media_diaria: media,
+		meta: goal,
+		diferenca_media_meta: registrados.length ? remainingToGoal(goal, media) : null,
+		dias_acima_da_meta_calorias: goal?.calorias ? registrados.filter((d) => d.calorias > goal.calorias!).length : null,
+	};
+}
+
+// ---------- Treinos e progresso ----------
+// Sessões e medidas registradas pelo agente na conversa; o progresso (sequências, volume semanal,
+// tendência) alimenta a tool de consulta e o resumo semanal enviado pelo cron aos domingos.
+interface WorkoutLogRow {
+	id: string;
+	user_id: string;
+	local_date: string; // YYYY-MM-DD no fuso do usuário
+	logged_at: string;
+	program: string;
+	duration_min: number;
+	effort: number | null; // percepção de esforço (RPE 1–10)
+	notes?: string | null;
+	created_at?: string;
+}
+
+interface BodyMeasurementRow {
+	id: string;
+	user_id: string;
+	local_date: string;
+	measured_at: string;
+	weight_kg?: number | null;
+	waist_cm?: number | null;
+	hip_cm?: number | null;
+	chest_cm?: number | null;
+	arm_cm?: number | null;
+	thigh_cm?: number | null;
+	body_fat_pct?: number | null;
+}
+
+type MeasurementKey = 'peso_kg' | 'cintura_cm' | 'quadril_cm' | 'peito_cm' | 'braco_cm' | 'coxa_cm' | 'gordura_pct';
+
+const MEASUREMENT_COLUMNS: Record<MeasurementKey, keyof BodyMeasurementRow> = {
+	peso_kg: 'weight_kg',
+	cintura_cm: 'waist_cm',
+	quadril_cm: 'hip_cm',
+	peito_cm: 'chest_cm',
+	braco_cm: 'arm_cm',
+	coxa_cm: 'thigh_cm',
+	gordura_pct: 'body_fat_pct',
+};
+
+type WeekVolume = { inicio: string; treinos: number; minutos: number; carga: number; esforco_medio: number | null };
+
+type WorkoutProgress = {
+	hoje: string;
+	sequencia_dias: number;
+	sequencia_semanas: number;
+	semanas: WeekVolume[];
+	tendencia: { variacao_pct: number; direcao: 'subindo' | 'estavel' | 'caindo' } | null;
+	medidas: { desde: string; atual: Partial<Record<MeasurementKey, number>>; variacao: Partial<Record<MeasurementKey, number>> } | null;
+};
+
+// Histórico usado para sequências: pelo menos 12 semanas, mesmo quando a consulta pede menos
+const PROGRESS_HISTORY_WEEKS = 12;
+const WEEKLY_PROGRESS_DAY: Weekday = 'dom';
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Segunda-feira da semana da data
+const weekStart = (date: string) => shiftDate(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+async function loadWorkouts(supabase: SupabaseClient, userId: string, from: string, to: string) {
+	const { data, error } = await supabase.from('workout_log').select('*').eq('user_id', userId).gte('local_date', from).lte('local_date', to);
+	if (error) throw new Error(`Erro ao consultar treinos: ${error.message}`);
+	return ((data || []) as WorkoutLogRow[]).sort((a, b) => a.logged_at.localeCompare(b.logged_at));
+}
+
+// Data informada pelo usuário (YYYY-MM-DD, não futura) ou hoje no fuso dele
+async function resolveLogDate(supabase: SupabaseClient, userId: string, raw?: string) {
+	const today = localDateParts(new Date(), await userTimezone(supabase, userId)).date;
+	if (raw === undefined) return { date: today, today };
+	if (!ISO_DATE.test(raw) || raw > today) return null;
+	return { date: raw, today };
+}
+
+async function workoutProgress(supabase: SupabaseClient, userId: string, today: string, weeks: number): Promise<WorkoutProgress> {
+	const currentWeek = weekStart(today);
+	const from = shiftDate(currentWeek, -7 * (Math.max(weeks, PROGRESS_HISTORY_WEEKS) - 1));
+	const [workouts, { data: measurementData }] = await Promise.all([
+		loadWorkouts(supabase, userId, from, today),
+		supabase.from('body_measurements').select('*').eq('user_id', userId).gte('local_date', shiftDate(currentWeek, -7 * (weeks - 1))),
+	]);
+
+	// Sequência de dias: conta a partir de hoje, ou de ontem se ainda não treinou hoje
+	const days = new Set(workouts.map((w) => w.local_date));
+	let streakDay = days.has(today) ? today : shiftDate(today, -1);
+	let sequenciaDias = 0;
+	while (days.has(streakDay)) {
+		sequenciaDias++;
+		streakDay = shiftDate(streakDay, -1);
+	}
+
+	const totalWeeks = Math.max(weeks, PROGRESS_HISTORY_WEEKS);
+	const allWeeks: WeekVolume[] = Array.from({ length: totalWeeks }, (_, i) => {
+		const inicio = shiftDate(from, 7 * i);
+		const rows = workouts.filter((w) => w.local_date >= inicio && w.local_date < shiftDate(inicio, 7));
+		const rated = rows.filter((w) => w.effort);
+		return {
+			inicio,
+			treinos: rows.length,
+			minutos: rows.reduce((n, w) => n + w.duration_min, 0),
+			// Carga de sessão: minutos × esforço (sessões sem esforço informado não entram)
+			carga: rated.reduce((n, w) => n + w.duration_min * w.effort!, 0),
+			esforco_medio: rated.length ? round1(rated.reduce((n, w) => n + w.effort!, 0) / rated.length) : null,
+		};
+	});
+
+	// Sequência de semanas: a atual conta se já tiver treino; senão começa na anterior
+	let sequenciaSemanas = 0;
+	for (let i = allWeeks.length - (allWeeks[allWeeks.length - 1].treinos > 0 ? 1 : 2); i >= 0 && allWeeks[i].treinos > 0; i--) {
+		sequenciaSemanas++;
+	}
+
+	// Tendência: última semana completa contra a média das anteriores do período pedido
+	const semanas = allWeeks.slice(-weeks);
+	const complete = semanas.slice(0, -1);
+	let tendencia: WorkoutProgress['tendencia'] = null;
+	if (complete.length >= 2) {
+		const last = complete[complete.length - 1].minutos;
+		const before = complete.slice(0, -1).reduce((n, w) => n + w.minutos, 0) / (complete.length - 1);
+		if (before > 0) {
+			const variacao = Math.round(((last - before) / before) * 100);
+			tendencia = { variacao_pct: variacao, direcao: variacao > 10 ? 'subindo' : variacao < -10 ? 'caindo' : 'estavel' };
+		}
+	}
+
+	const measurements = ((measurementData || []) as BodyMeasurementRow[]).sort((a, b) => a.measured_at.localeCompare(b.measured_at));
+	let medidas: WorkoutProgress['medidas'] = null;
+	if (measurements.length > 0) {
+		const atual: Partial<Record<MeasurementKey, number>> = {};
+		const variacao: Partial<Record<MeasurementKey, number>> = {};
+		for (const [key, column] of Object.entries(MEASUREMENT_COLUMNS) as [MeasurementKey, keyof BodyMeasurementRow][]) {
+			const values = measurements.map((m) => m[column]).filter((v): v is number => typeof v === 'number');
+			if (values.length === 0) continue;
+			atual[key] = values[values.length - 1];
+			if (values.length > 1) variacao[key] = round1(values[values.length - 1] - values[0]);
+		}
+		medidas = { desde: measurements[0].local_date, atual, variacao };
+	}
+
+	return { hoje: today, sequencia_dias: sequenciaDias, sequencia_semanas: sequenciaSemanas, semanas, tendencia, medidas };
+}
+
+async function tool_registrar_treino(
+	env: TenantEnv,
+	userId: string,
+	args: { programa: string; duracao_min: number; esforco?: number; data?: string; observacoes?: string },
+	logId: string
+) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const when = await resolveLogDate(supabase, userId, args.data);
+	if (!when) return { ok: false, error: { code: 'INVALID_DATE', detail: 'Use YYYY-MM-DD, até hoje' } };
+	const row: WorkoutLogRow = {
+		// id da tool call: a mesma chamada repetida não duplica; sessões distintas (mesmo programa no mesmo dia) são linhas
+		// distintas. Mensagem repetida pelo WhatsApp/n8n já é descartada antes do turno (inbound_messages)
+		id: logId,
+		user_id: userId,
+		local_date: when.date,
+		logged_at: new Date().toISOString(),
+		program: args.programa.trim(),
+		duration_min: args.duracao_min,
+		effort: args.esforco ?? null,
+		notes: args.observacoes?.trim() || null,
+	};
+	const { error } = await supabase.from('workout_log').upsert([row], { onConflict: 'id' });
+	if (error) throw new Error(`Erro ao salvar treino: ${error.message}`);
+	const progress = await workoutProgress(supabase, userId, when.today, 1);
+	return {
+		ok: true,
+		treino: { data: row.local_date, programa: row.program, duracao_min: row.duration_min, esforco: row.effort },
+		semana: progress.semanas[0],
+		sequencia_dias: progress.sequencia_dias,
+		sequencia_semanas: progress.sequencia_semanas,
+	};
+}
+
+async function tool_registrar_medidas(
+	env: TenantEnv,
+	userId: string,
+	args: Partial<Record<MeasurementKey, number>> & { data?: string }
+) {
+	const values = Object.entries(MEASUREMENT_COLUMNS).filter(([key]) => typeof args[key as MeasurementKey] === 'number');
+	if (values.length === 0) return { ok: false, error: { code: 'EMPTY_MEASUREMENTS', detail: 'Informe ao menos uma medida' } };
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const when = await resolveLogDate(supabase, userId, args.data);
+	if (!when) return { ok: false, error: { code: 'INVALID_DATE', detail: 'Use YYYY-MM-DD, até hoje' } };
+
+	const { data: previous } = await supabase.from('body_measurements').select('*').eq('user_id', userId).lt('local_date', when.date);
+	const row: BodyMeasurementRow = {
+		// Uma linha por usuário e dia: medidas do mesmo dia se juntam (o upsert só grava as colunas informadas)
+		id: `${userId}:${when.date}`,
+		user_id: userId,
+		local_date: when.date,
+		measured_at: new Date().toISOString(),
+		...Object.fromEntries(values.map(([key, column]) => [column, args[key as MeasurementKey]])),
+	};
+	const { error } = await supabase.from('body_measurements').upsert([row], { onConflict: 'id' });
+	if (error) throw new Error(`Erro ao salvar medidas: ${error.message}`);
+
+	// Variação contra a última medida anterior de cada campo
+	const history = ((previous || []) as BodyMeasurementRow[]).sort((a, b) => a.measured_at.localeCompare(b.measured_at));
+	const variacao: Partial<Record<MeasurementKey, number>> = {};
+	for (const [key, column] of values) {
+		const last = history.filter((m) => typeof m[column as keyof BodyMeasurementRow] === 'number').pop();
+		if (last) variacao[key as MeasurementKey] = round1(args[key as MeasurementKey]! - (last[column as keyof BodyMeasurementRow] as number));
+	}
+	return { ok: true, data: when.date, medidas: Object.fromEntries(values.map(([key]) => [key, args[key as MeasurementKey]])), variacao };
+}
+
+async function tool_consultar_progresso_treino(env: TenantEnv, userId: string, args: { semanas?: number }) {
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const today = localDateParts(new Date(), await userTimezone(supabase, userId)).date;
+	return { ok: true, ...(await workoutProgress(supabase, userId, today, args?.semanas ?? 4)) };
+}
+
+// Texto do resumo semanal (formatação WhatsApp); a semana atual é a que termina no domingo do envio
+function formatWeeklyProgress(progress: WorkoutProgress, name?: string) {
+	const [previous, current] = progress.semanas.slice(-2);
+	const num = (n: number) => n.toLocaleString('pt-BR');
+	const lines = [`*Seu resumo da semana${name ? `, ${name}` : ''}* 💪`];
+	if (current.treinos > 0) {
+		const before = previous ? ` — semana anterior: ${previous.treinos} (${previous.minutos} min)` : '';
+		lines.push(`• Treinos: ${current.treinos} (${current.minutos} min)${before}`);
+	} else {
+		lines.push('• Nenhum treino registrado esta semana.');
+	}
+	if (current.esforco_medio) lines.push(`• Esforço médio: ${num(current.esforco_medio)}/10`);
+	if (progress.sequencia_semanas > 1) lines.push(`• Sequência: ${progress.sequencia_semanas} semanas seguidas treinando 🔥`);
+	if (progress.medidas?.atual.peso_kg !== undefined) {
+		const delta = progress.medidas.variacao.peso_kg;
+		const since = progress.medidas.desde.split('-').reverse().join('/');
+		lines.push(`• Peso: ${num(progress.medidas.atual.peso_kg)} kg${delta ? ` (${delta > 0 ? '+' : ''}${num(delta)} kg desde ${since})` : ''}`);
+	}
+	lines.push(current.treinos > 0 ? 'Bora manter o ritmo na próxima semana!' : 'Que tal começar a próxima semana com um treino leve? Conte comigo!');
+	return lines.join('\n');
+}
+
+// Marca o resumo da semana antes de enviar; progress_summaries tem unique(user_id, week_start).
+// Como nos lembretes de treino, outros erros do banco sobem.
+async function claimProgressSummary(supabase: SupabaseClient, userId: string, week: string) {
+	const { error } = await supabase.from('progress_summaries').insert([{ user_id: userId, week_start: week, status: 'pending' }]);
+	if (!error) return true;
+	if (isUniqueViolation(error)) return false;
+	throw new Error(`CLAIM_FAILED: ${error.message}`);
+}
+
+// Domingo, a partir de WEEKLY_PROGRESS_HOUR no fuso do usuário, para quem registrou treino nas últimas 2 semanas
+async function runWeeklyProgress(env: TenantEnv, now: Date) {
+	const stats = { sent: 0, skipped: 0, failed: 0 };
+	if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return stats;
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const summaryHour = Number(env.WEEKLY_PROGRESS_HOUR ?? 19);
+
+	const { data, error } = await supabase
+		.from('workout_log')
+		.select('user_id')
+		.gte('local_date', shiftDate(localDateParts(now, DEFAULT_TIMEZONE).date, -14));
+	if (error) {
+		console.error('Erro ao buscar treinos para o resumo semanal:', error);
+		return stats;
+	}
+
+	for (const userId of new Set(((data || []) as Pick<WorkoutLogRow, 'user_id'>[]).map((r) => r.user_id))) {
+		const local = localDateParts(now, await userTimezone(supabase, userId));
+		if (local.weekday !== WEEKLY_PROGRESS_DAY || local.hour < summaryHour) continue;
+
+		const { data: activity } = await supabase.from('user_activity').select('phone').eq('user_id', userId).maybeSingle();
+		const phone = (activity as Pick<UserActivityRow, 'phone'> | null)?.phone || (await loadOnboarding(supabase, userId))?.phone;
+		const week = weekStart(local.date);
+		const userEnv = envForScopedId(env, userId);
+		try {
+			if (!phone || (await windowBlocksFreeText(userEnv, phone)) || !(await claimProgressSummary(supabase, userId, week))) {
+				stats.skipped++;
+				continue;
+			}
+		} catch (e) {
+			console.error('Erro ao marcar resumo semanal:', userId, e);
+			stats.failed++;
+			continue;
+		}
+
+		const [progress, profile] = await Promise.all([workoutProgress(supabase, userId, local.date, 4), loadUserProfile(supabase, userId)]);
+		const sent = await tool_send_whatsapp_text(
+			userEnv,
+			{ to: phone, text: formatWeeklyProgress(progress, profile.nome) },
+			crypto.randomUUID(),
+			{ idempotencyKey: `progress:${userId}:${week}` }
+		);
+		await supabase
+			.from('progress_summaries')
+			.update({ status: sent.ok ? 'sent' : 'failed', sent_at: new Date().toISOString(), error: sent.error?.code ?? null })
+			.eq('user_id', userId)
+			.eq('week_start', week);
+		if (sent.ok) stats.sent++;
+		else stats.failed++;
+	}
+	console.log('Resumos semanais de progresso:', stats);
+	return stats;
+}
+
+// ---------- Registro de ferramentas do agente ----------
+// Cada ferramenta declara schema, handler, timeout e classe de efeito colateral num só lugar.
+type JsonSchema = {
+	type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	enum?: unknown[];
+	minItems?: number;
+	maxItems?: number;
+	minimum?: number;
+	maximum?: number;
+};
+
+// read: pode rodar em paralelo; write/send: mudam estado ou falam com o usuário e rodam em ordem
+type ToolSideEffect = 'read' | 'write' | 'send';
+
+type ToolContext = {
+	env: TenantEnv;
+	openai: OpenAI;
+	conversationId: string;
+	userPhone?: string;
+	// Fotos anexadas no turno (ver AgentTurnInput.images)
+	images: string[];
+	traceId: string;
+	toolCallId: string;
+};
+
+type ToolDefinition = {
+	name: string;
+	description: string;
+	parameters: JsonSchema;
+	handler: (args: any, ctx: ToolContext) => Promise<unknown>;
+	timeoutMs?: number;
+	sideEffect: ToolSideEffect;
+};
+
+type ToolCallResult = { id: string; name: string; ok: boolean; durationMs: number; content: string };
+
+const DEFAULT_TOOL_TIMEOUT_MS = 10_000;
+const TOOL_TIMEOUT = Symbol('tool_timeout');
+
+const toolError = (code: string, detail?: unknown) => ({ ok: false, error: { code, detail } });
+
+// Mesma conversa + mesmo tool call = mesma mensagem (retries deduplicados pelo n8n)
+const toolIdempotencyKey = (ctx: ToolContext) => `${ctx.conversationId}:${ctx.toolCallId}`;
+
+// Validador mínimo de JSON Schema (o subconjunto usado nas definições das tools)
+function validateAgainstSchema(schema: JsonSchema, value: unknown, path = '$'): string[] {
+	const errors: string[] = [];
+	const typeOf = (v: unknown) => (Array.isArray(v) ? 'array' : v === null ? 'null' : typeof v);
+	if (schema.type) {
+		const t = typeOf(value);
+		const ok =
+			schema.type === 'integer' ? Number.isInteger(value) : schema.type === 'number' ? t === 'number' && Number.isFinite(value) : t === schema.type;
+		if (!ok) return [`${path}: esperado ${schema.type}, recebido ${t}`];
+	}
+	if (schema.enum && !schema.enum.includes(value)) errors.push(`${path}: deve ser um de ${schema.enum.join(', ')}`);
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: mínimo ${schema.minimum}`);
+		if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: máximo ${schema.maximum}`);
+	}
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: mínimo de ${schema.minItems} itens`);
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: máximo de ${schema.maxItems} itens`);
+		if (schema.items) value.forEach((item, i) => errors.push(...validateAgainstSchema(schema.items!, item, `${path}[${i}]`)));
+	}
+	if (typeOf(value) === 'object') {
+		const obj = value as Record<string, unknown>;
+		for (const key of schema.required || []) if (obj[key] === undefined) errors.push(`${path}.${key}: obrigatório`);
+		for (const [key, v] of Object.entries(obj)) {
+			const prop = schema.properties?.[key];
+			if (prop) errors.push(...validateAgainstSchema(prop, v, `${path}.${key}`));
+			else if (schema.additionalProperties === false) errors.push(`${path}.${key}: propriedade não permitida`);
+		}
+	}
+	return errors;
+}
+
+async function withTimeout<T>(p: Promise<T>, ms: number): Promise<T | typeof TOOL_TIMEOUT> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<typeof TOOL_TIMEOUT>((resolve) => {
+		timer = setTimeout(() => resolve(TOOL_TIMEOUT), ms);
+	});
+	try {
+		return await Promise.race([p, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// Executa uma ferramenta do n8n (rota /tool/<name>)
+async function executeN8nTool(env: TenantEnv, toolName: string, args: any, traceId: string, timeoutMs = DEFAULT_TOOL_TIMEOUT_MS) {
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort('timeout'), timeoutMs);
+	try {
+		console.log(`Executando ferramenta ${toolName}:`, args);
+
+		const base = trimTrailingSlash(env.N8N_WEBHOOK_URL);
+		const response = await fetch(`${base}/tool/${toolName}`, {
+			method: 'POST',
+			headers: {
+				'content-type': 'application/json',
+				'x-trace-id': traceId,
+				// usar lowercase conforme If do n8n
+				'x-n8n-api-key': env.N8N_API_KEY,
+			},
+			body: JSON.stringify(args),
+			signal: controller.signal,
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text().catch(() => '');
+			console.error(`Erro na ferramenta ${toolName}:`, response.status, errorText);
+			return toolError(`HTTP_${response.status}`, errorText);
+		}
+
+		const result = await response.json().catch(() => ({}));
+		console.log(`Resultado da ferramenta ${toolName}:`, result);
+		return { ok: true, data: result };
+	} catch (error) {
+		console.error(`Erro ao executar ${toolName}:`, error);
+		return toolError('FETCH_ERROR', error instanceof Error ? error.message : 'Erro desconhecido');
+	} finally {
+		clearTimeout(timeout);
+	}
+}
+
+// N8N_TOOLS (JSON) registra ferramentas do n8n sem editar o código, ex.:
+// [{ "name": "consultar_pedido", "description": "...", "parameters": { ... }, "path": "consultar-pedido", "timeoutMs": 8000, "sideEffect": "read" }]
+function n8nToolsFromConfig(env: TenantEnv): ToolDefinition[] {
+	if (!env.N8N_TOOLS) return [];
+	let parsed: any;
+	try {
+		parsed = JSON.parse(env.N8N_TOOLS);
+	} catch {
+		console.error('N8N_TOOLS inválido: esperado um array JSON');
+		return [];
+	}
+	if (!Array.isArray(parsed)) return [];
+	return parsed
+		.filter((t) => t && typeof t.name === 'string')
+		.map((t) => ({
+			name: t.name,
+			description: t.description || `Ferramenta n8n ${t.name}`,
+			parameters: t.parameters || { type: 'object', properties: {} },
+			timeoutMs: t.timeoutMs,
+			sideEffect: (['read', 'write', 'send'] as const).includes(t.sideEffect) ? t.sideEffect : 'write',
+			handler: (args: any, ctx: ToolContext) => executeN8nTool(ctx.env, t.path || t.name, args, ctx.traceId, t.timeoutMs),
+		}));
+}
+
+const BUILTIN_TOOLS: ToolDefinition[] = [
+	{
+		name: 'consultar_base_conhecimento',
+		description:
+			'Busca trechos no material oficial Weburn (nutrição, metodologia de treino). Retorna passagens com referências [n] para citar.',
+		parameters: {
+			type: 'object',
+			properties: {
+				pergunta: { type: 'string', description: 'Pergunta ou tema a pesquisar' },
+				max_resultados: { type: 'integer', minimum: 1, maximum: 8, description: 'Opcional (padrão 4)' },
+			},
+			required: ['pergunta'],
+			additionalProperties: false,
+		},
+		timeoutMs: 15_000,
+		sideEffect: 'read',
+		handler: (args, ctx) => tool_consultar_base_conhecimento(ctx.env, ctx.openai, args),
+	},
+	{
+		name: 'buscar_programas_weburn',
+		description:
+			'Busca programas de treino na plataforma Weburn com base no nível, modalidade e disponibilidade de equipamentos.',
+		parameters: {
+			type: 'object',
+			properties: {
+				nivel: {
+					type: 'string',
+					description: 'Nível do usuário (Iniciante, Intermediário, Avançado)',
+				},
+				modalidade: {
+					type: 'string',
+					description: 'Modalidade de treino (ex.: HIIT, Yoga, Musculação, etc.)',
+				},
+				possui_equipamentos: {
+					type: 'boolean',
+					description: 'Se o usuário possui equipamentos em casa',
+				},
+			},
+			required: ['nivel', 'modalidade', 'possui_equipamentos'],
+			additionalProperties: false,
+		},
+		timeoutMs: 12_000,
+		sideEffect: 'read',
+		handler: (args, ctx) => buscarProgramasWeburn(ctx.env, args, ctx.traceId),
+	},
+	// compat legada (modelo antigo pode chamar isso)
+	{
+		name: 'send_whatsapp',
+		description: 'LEGADO: envia uma mensagem de texto simples via WhatsApp.',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string', description: 'Telefone E.164: +55...' },
+				text: { type: 'string', description: 'Mensagem curta (<= 1024 chars)' },
+				reply_to: { type: 'string', description: 'Opcional: message_id para reply' },
+			},
+			required: ['to', 'text'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_text(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_text',
+		description: 'Envia mensagem de texto simples pelo WhatsApp.',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string', description: 'Telefone E.164: +55...' },
+				text: { type: 'string', description: 'Mensagem curta (<= 1024 chars)' },
+				reply_to: { type: 'string', description: 'Opcional: message_id para reply' },
+			},
+			required: ['to', 'text'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_text(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_buttons',
+		description: 'Envia mensagem interativa com até 3 botões (reply).',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string' },
+				body: { type: 'string' },
+				buttons: {
+					type: 'array',
+					minItems: 1,
+					maxItems: 3,
+					items: {
+						type: 'object',
+						properties: {
+							id: { type: 'string' },
+							text: { type: 'string', description: 'Rótulo curto (~20 chars)' },
+							value: { type: 'string', description: 'Opcional: valor canônico da opção (ex.: id do programa); padrão = rótulo' },
+						},
+						required: ['id', 'text'],
+						additionalProperties: false,
+					},
+				},
+				header: { type: 'string' },
+				footer: { type: 'string' },
+			},
+			required: ['to', 'body', 'buttons'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_buttons(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_list',
+		description: 'Envia lista interativa (seções/linhas).',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string' },
+				body: { type: 'string' },
+				header: { type: 'string' },
+				footer: { type: 'string' },
+				button: { type: 'string', description: 'Texto do botão principal' },
+				sections: {
+					type: 'array',
+					minItems: 1,
+					maxItems: 10,
+					items: {
+						type: 'object',
+						properties: {
+							title: { type: 'string' },
+							rows: {
+								type: 'array',
+								minItems: 1,
+								maxItems: 10,
+								items: {
+									type: 'object',
+									properties: {
+										id: { type: 'string' },
+										title: { type: 'string' },
+										description: { type: 'string' },
+										value: { type: 'string', description: 'Opcional: valor canônico da opção; padrão = título' },
+									},
+									required: ['id', 'title'],
+									additionalProperties: false,
+								},
+							},
+						},
+						required: ['title', 'rows'],
+						additionalProperties: false,
+					},
+				},
+			},
+			required: ['to', 'body', 'button', 'sections'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_list(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_media',
+		description: 'Envia imagem, vídeo, áudio (nota de voz) ou documento (PDF) por URL pública ou media_id já enviado à Meta.',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string', description: 'Telefone E.164: +55...' },
+				type: { type: 'string', enum: ['image', 'video', 'audio', 'document'] },
+				url: { type: 'string', description: 'URL pública (https) do arquivo; use url ou media_id' },
+				media_id: { type: 'string', description: 'Id de mídia já enviada à Meta; use url ou media_id' },
+				caption: { type: 'string', description: 'Opcional: legenda (<= 1024 chars; ignorada em áudio)' },
+				filename: { type: 'string', description: 'Opcional: nome do arquivo (só documento)' },
+				reply_to: { type: 'string', description: 'Opcional: message_id para reply' },
+			},
+			required: ['to', 'type'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_media(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_cta_url',
+		description: 'Envia mensagem com um botão que abre um link (ex.: app ou programa Weburn).',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string' },
+				body: { type: 'string' },
+				button_text: { type: 'string', description: 'Rótulo curto (~20 chars)' },
+				url: { type: 'string', description: 'URL https aberta pelo botão' },
+				header: { type: 'string' },
+				footer: { type: 'string' },
+			},
+			required: ['to', 'body', 'button_text', 'url'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_cta_url(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_location',
+		description: 'Envia uma localização (ex.: parque ou academia sugerida).',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string' },
+				latitude: { type: 'number', minimum: -90, maximum: 90 },
+				longitude: { type: 'number', minimum: -180, maximum: 180 },
+				name: { type: 'string' },
+				address: { type: 'string' },
+			},
+			required: ['to', 'latitude', 'longitude'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_location(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_reaction',
+		description: 'Reage com um emoji a uma mensagem do usuário (emoji vazio remove a reação).',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string' },
+				message_id: { type: 'string', description: 'message_id (wamid) da mensagem do usuário' },
+				emoji: { type: 'string' },
+			},
+			required: ['to', 'message_id', 'emoji'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_reaction(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'send_whatsapp_template',
+		description: 'Envia um template aprovado na Meta com variáveis ({{1}}, {{2}}...), necessário para iniciar conversa fora da janela de 24h.',
+		parameters: {
+			type: 'object',
+			properties: {
+				to: { type: 'string' },
+				name: { type: 'string', description: 'Nome do template aprovado' },
+				language: { type: 'string', description: 'Opcional: código do idioma (padrão pt_BR)' },
+				header_params: { type: 'array', items: { type: 'string' }, description: 'Variáveis do cabeçalho, em ordem' },
+				body_params: { type: 'array', items: { type: 'string' }, description: 'Variáveis do corpo, em ordem' },
+				button_url_params: { type: 'array', items: { type: 'string' }, description: 'Sufixo dinâmico de cada botão de URL, em ordem' },
+			},
+			required: ['to', 'name'],
+			additionalProperties: false,
+		},
+		timeoutMs: 10_000,
+		sideEffect: 'send',
+		handler: (args, ctx) => tool_send_whatsapp_template(ctx.env, args, ctx.traceId, { idempotencyKey: toolIdempotencyKey(ctx) }),
+	},
+	{
+		name: 'gerenciar_agenda_treino',
+		description:
+			'Consulta ou altera os dias de treino do usuário (lembretes automáticos no dia do treino). Use para pausar, retomar ou trocar os dias.',
+		parameters: {
+			type: 'object',
+			properties: {
+				acao: { type: 'string', enum: ['consultar', 'definir_dias', 'pausar', 'retomar'] },
+				dias: {
+					type: 'array',
+					items: { type: 'string', enum: ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sab'] },
+					description: 'Obrigatório em definir_dias',
+				},
+				timezone: { type: 'string', description: 'Opcional: fuso IANA (padrão America/Sao_Paulo)' },
+			},
+			required: ['acao'],
+			additionalProperties: false,
+		},
+		timeoutMs: 8_000,
+		sideEffect: 'write',
+		handler: (args, ctx) => tool_gerenciar_agenda_treino(ctx.env, ctx.conversationId, args, ctx.userPhone),
+	},
+	{
+		name: 'consultar_perfil_usuario',
+		description: 'Lê o perfil salvo do usuário (nome, nível, modalidades, equipamentos, objetivos, restrições, dias preferidos).',
+		parameters: { type: 'object', properties: {}, additionalProperties: false },
+		timeoutMs: 5_000,
+		sideEffect: 'read',
+		handler: (_args, ctx) => tool_consultar_perfil_usuario(ctx.env, ctx.conversationId),
+	},
+	{
+		name: 'atualizar_perfil_usuario',
+		description: 'Salva fatos que o usuário informou ou corrigiu. Envie só os campos alterados; listas substituem as anteriores.',
+		parameters: USER_PROFILE_SCHEMA,
+		timeoutMs: 5_000,
+		sideEffect: 'write',
+		handler: (args, ctx) => tool_atualizar_perfil_usuario(ctx.env, ctx.conversationId, args),
+	},
+	{
+		name: 'registrar_refeicao_foto',
+		description:
+			'Analisa a foto de refeição enviada neste turno (alimentos, porções, calorias e macros) e registra no diário alimentar. Use quando a foto for de algo que o usuário comeu ou vai comer.',
+		parameters: {
+			type: 'object',
+			properties: {
+				foto: {
+					type: 'integer',
+					minimum: 1,
+					maximum: ATTACHMENT_MAX_COUNT,
+					description: 'Qual imagem do turno, na ordem recebida (padrão: a última)',
+				},
+				observacao: { type: 'string', description: 'O que o usuário disse sobre a refeição (ex.: "metade do prato", "sem açúcar")' },
+			},
+			additionalProperties: false,
+		},
+		timeoutMs: 30_000,
+		sideEffect: 'write',
+		handler: (args, ctx) => tool_registrar_refeicao_foto(ctx.env, ctx.conversationId, ctx.images, args),
+	},
+	{
+		name: 'consultar_diario_alimentar',
+		description:
+			'Totais de calorias e macros das refeições registradas (fotos analisadas) no dia ou nos 7 dias até a data, comparados com as metas diárias do perfil.',
+		parameters: {
+			type: 'object',
+			properties: {
+				periodo: { type: 'string', enum: ['dia', 'semana'], description: 'dia (padrão) ou semana' },
+				data: { type: 'string', description: 'YYYY-MM-DD; padrão: hoje no fuso do usuário' },
+			},
+			additionalProperties: false,
+		},
+		timeoutMs: 5_000,
+		sideEffect: 'read',
+		handler: (args, ctx) => tool_consultar_diario_alimentar(ctx.env, ctx.conversationId, args),
+	},
+	{
+		name: 'registrar_treino',
+		description: 'Registra um treino que o usuário contou ter feito: programa/modalidade, duração, esforço percebido (1–10) e data.',
+		parameters: {
+			type: 'object',
+			properties: {
+				programa: { type: 'string', description: 'Programa Weburn ou modalidade (ex.: HIIT 20, corrida)' },
+				duracao_min: { type: 'integer', minimum: 1, maximum: 600, description: 'Duração em minutos' },
+				esforco: { type: 'integer', minimum: 1, maximum: 10, description: 'Esforço percebido: 1 muito leve, 10 máximo' },
+				data: { type: 'string', description: 'YYYY-MM-DD; padrão: hoje (ontem etc. quando o usuário disser)' },
+				observacoes: { type: 'string' },
+			},
+			required: ['programa', 'duracao_min'],
+			additionalProperties: false,
+		},
+		timeoutMs: 5_000,
+		sideEffect: 'write',
+		handler: (args, ctx) => tool_registrar_treino(ctx.env, ctx.conversationId, args, toolIdempotencyKey(ctx)),
+	},
+	{
+		name: 'registrar_medidas',
+		description: 'Registra peso e medidas corporais informados pelo usuário (uma entrada por dia); devolve a variação desde a medida anterior.',
+		parameters: {
+			type: 'object',
+			properties: {
+				peso_kg: { type: 'number', minimum: 20, maximum: 400 },
+				cintura_cm: { type: 'number', minimum: 20, maximum: 300 },
+				quadril_cm: { type: 'number', minimum: 20, maximum: 300 },
+				peito_cm: { type: 'number', minimum: 20, maximum: 300 },
+				braco_cm: { type: 'number', minimum: 10, maximum: 100 },
+				coxa_cm: { type: 'number', minimum: 10, maximum: 150 },
+				gordura_pct: { type: 'number', minimum: 1, maximum: 75, description: 'Percentual de gordura corporal' },
+				data: { type: 'string', description: 'YYYY-MM-DD; padrão: hoje' },
+			},
+			additionalProperties: false,
+		},
+		timeoutMs: 5_000,
+		sideEffect: 'write',
+		handler: (args, ctx) => tool_registrar_medidas(ctx.env, ctx.conversationId, args),
+	},
+	{
+		name: 'consultar_progresso_treino',
+		description:
+			'Progresso de treinos: sequência de dias e de semanas treinando, volume por semana (treinos, minutos, carga = minutos × esforço), tendência e evolução das medidas.',
+		parameters: {
+			type: 'object',
+			properties: { semanas: { type: 'integer', minimum: 1, maximum: 12, description: 'Semanas a analisar (padrão 4)' } },
+			additionalProperties: false,
+		},
+		timeoutMs: 5_000,
+		sideEffect: 'read',
+		handler: (args, ctx) => tool_consultar_progresso_treino(ctx.env, ctx.conversationId, args),
+	},
+];
+
+function getToolRegistry(env: TenantEnv): Map<string, ToolDefinition> {
+	const registry = new Map<string, ToolDefinition>();
+	for (const tool of BUILTIN_TOOLS) registry.set(tool.name, tool);
+	for (const tool of n8nToolsFromConfig(env)) {
+		if (registry.has(tool.name)) {
+			console.error(`N8N_TOOLS: ${tool.name} conflita com uma ferramenta nativa e foi ignorada`);
+			continue;
+		}
+		registry.set(tool.name, tool);
+	}
+	const enabled = env.tenant.enabledTools;
+	if (enabled) for (const name of [...registry.keys()]) if (!enabled.includes(name)) registry.delete(name);
+	return registry;
+}
+
+const toOpenAITools = (
+	registry: Map<string, ToolDefinition>,
+	descriptions: Record<string, string> = {}
+): OpenAI.Chat.Completions.ChatCompletionTool[] =>
+	[...registry.values()].map((t) => ({
+		type: 'function',
+		function: { name: t.name, description: descriptions[t.name] || t.description, parameters: t.parameters as Record<string, unknown> },
+	}));
+
+// Nunca lança: erros de JSON, validação, timeout ou execução voltam estruturados para o modelo
+async function executeToolCall(
+	registry: Map<string, ToolDefinition>,
+	toolCall: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+	ctx: Omit<ToolContext, 'traceId' | 'toolCallId'>
+): Promise<ToolCallResult> {
+	const t0 = Date.now();
+	const name = toolCall.function.name;
+	const finish = (result: unknown): ToolCallResult => ({
+		id: toolCall.id,
+		name,
+		ok: typeof result === 'object' && result !== null && !('ok' in result && result.ok === false),
+		durationMs: Date.now() - t0,
+		content: JSON.stringify(result ?? null),
+	});
+
+	const tool = registry.get(name);
+	if (!tool) return finish(toolError('UNKNOWN_TOOL', `Ferramenta não registrada: ${name}`));
+
+	let args: unknown;
+	try {
+		args = JSON.parse(toolCall.function.arguments || '{}');
+	} catch {
+		return finish(toolError('INVALID_JSON', 'Os argumentos não são um JSON válido'));
+	}
+	const errors = validateAgainstSchema(tool.parameters, args);
+	if (errors.length > 0) return finish(toolError('INVALID_ARGUMENTS', errors));
+
+	console.log(`Executando função: ${name}`, args);
+	try {
+		const result = await withTimeout(
+			tool.handler(args, { ...ctx, traceId: crypto.randomUUID(), toolCallId: toolCall.id }),
+			tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS
+		);
+		if (result === TOOL_TIMEOUT) return finish(toolError('TIMEOUT', `Sem resposta em ${tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS}ms`));
+		return finish(result);
+	} catch (e: any) {
+		console.error(`Erro ao executar ${name}:`, e);
+		return finish(toolError('TOOL_ERROR', e?.message || String(e)));
+	}
+}
+
+// Leituras rodam em paralelo; escritas/envios seguem a ordem pedida pelo modelo
+function executeToolCalls(
+	registry: Map<string, ToolDefinition>,
+	toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[],
+	ctx: Omit<ToolContext, 'traceId' | 'toolCallId'>,
+	onEvent?: (event: AgentStreamEvent) => void
+): Promise<ToolCallResult[]> {
+	const run1 = async (tc: OpenAI.Chat.Completions.ChatCompletionMessageToolCall) => {
+		onEvent?.({ type: 'tool_start', id: tc.id, name: tc.function.name });
+		const r = await executeToolCall(registry, tc, ctx);
+		onEvent?.({ type: 'tool_end', id: r.id, name: r.name, ok: r.ok, durationMs: r.durationMs });
+		return r;
+	};
+	let chain: Promise<unknown> = Promise.resolve();
+	return Promise.all(
+		toolCalls.map((tc) => {
+			if ((registry.get(tc.function.name)?.sideEffect ?? 'read') === 'read') return run1(tc);
+			const run = chain.then(() => run1(tc));
+			chain = run;
+			return run;
+		})
+	);
+}
+
+// ---------- Contexto da conversa: orçamento de tokens + resumo contínuo ----------
+// O histórico entra literal enquanto couber em CONTEXT_TOKEN_BUDGET. Quando estoura, as mensagens
+// mais antigas (até sobrar metade do orçamento) são dobradas no resumo da conversa, salvo em
+// conversation_summaries e atualizado de forma incremental (só o que ainda não foi resumido).
+type ConversationSummaryRow = {
+	conversation_id: string;
+	summary: string;
+	summarized_until: string; // created_at da última mensagem já incluída no resumo
+	updated_at?: string;
+};
+
+type ConversationContext = {
+	summary: string | null;
+	messages: ConversationMessage[];
+	report: {
+		budgetTokens: number;
+		summaryTokens: number;
+		messageTokens: number;
+		messages: number;
+		folded: number;
+		truncated: number;
+	};
+};
+
+// Máximo de mensagens lidas por turno (proteção; o corte real é o orçamento de tokens)
+const CONTEXT_FETCH_LIMIT = 200;
+
+// Estimativa barata (~4 caracteres por token), suficiente para orçamento
+const estimateTokens = (text: string) => Math.ceil((text || '').length / 4);
+
+const contextBudget = (env: TenantEnv) => ({
+	budgetTokens: Math.max(200, Number(env.CONTEXT_TOKEN_BUDGET ?? 3000)),
+	summaryMaxTokens: Math.max(50, Number(env.CONTEXT_SUMMARY_MAX_TOKENS ?? 400)),
+});
+
+async function summarizeConversation(env: TenantEnv, previous: string | null, folded: ConversationMessage[], maxTokens: number) {
+	const transcript = folded.map((m) => `${m.role === 'user' ? 'Usuário' : 'Perso'}: ${m.content}`).join('\n');
+	const { text } = await generateText(
+		env,
+		'summary',
+		[
+			{
+				role: 'system',
+				content:
+					'Você mantém o resumo de uma conversa entre o Perso (agente fitness Weburn) e um usuário. Atualize o resumo anterior com as novas mensagens. ' +
+					'Guarde fatos úteis para continuar a conversa (objetivos, preferências, restrições, combinados, programas sugeridos); descarte cumprimentos. Responda só com o resumo.',
+			},
+			{ role: 'user', content: `Resumo anterior:\n${previous || '(vazio)'}\n\nNovas mensagens:\n${transcript}` },
+		],
+		{ maxTokens }
+	);
+	return text.trim() || previous || '';
+}
+
+async function buildConversationContext(
+	env: TenantEnv,
+	supabase: SupabaseClient,
+	conversationId: string
+): Promise<ConversationContext> {
+	const { budgetTokens, summaryMaxTokens } = contextBudget(env);
+	// Uma mensagem sozinha (ex.: análise multimodal longa) não pode ocupar mais de 1/4 do orçamento
+	const maxMessageTokens = Math.floor(budgetTokens / 4);
+
+	const { data: summaryRow } = await supabase.from('conversation_summaries').select('*').eq('conversation_id', conversationId).maybeSingle();
+	const stored = summaryRow as ConversationSummaryRow | null;
+
+	let query = supabase.from('conversation_history').select('role, content, created_at').eq('conversation_id', conversationId);
+	if (stored?.summarized_until) query = query.gt('created_at', stored.summarized_until);
+	const { data, error } = await query.order('created_at', { ascending: false }).limit(CONTEXT_FETCH_LIMIT);
+	if (error) throw new Error(`Erro ao buscar histórico: ${error.message}`);
+
+	let truncated = 0;
+	const rows = ((data || []) as ConversationMessage[])
+		.filter((m) => m.role === 'user' || m.role === 'assistant')
+		.reverse()
+		.map((m) => {
+			if (estimateTokens(m.content) <= maxMessageTokens) return m;
+			truncated++;
+			return { ...m, content: `${m.content.slice(0, maxMessageTokens * 4)}… [truncado]` };
+		});
+
+	let summary = stored?.summary || null;
+	let messages = rows;
+	let folded = 0;
+	const total = (list: ConversationMessage[]) => list.reduce((acc, m) => acc + estimateTokens(m.content), 0);
+
+	if (rows.length > 1 && estimateTokens(summary || '') + total(rows) > budgetTokens) {
+		// Mantém as mais recentes (no mínimo a última) até metade do orçamento; o resto vai para o resumo
+		let cut = rows.length - 1;
+		let keepTokens = estimateTokens(rows[cut].content);
+		while (cut > 0 && keepTokens + estimateTokens(rows[cut - 1].content) <= budgetTokens / 2) keepTokens += estimateTokens(rows[--cut].content);
+		const older = rows.slice(0, cut);
+		messages = rows.slice(cut);
+		if (older.length > 0) {
+			try {
+				summary = await summarizeConversation(env, summary, older, summaryMaxTokens);
+				const row: ConversationSummaryRow = {
+					conversation_id: conversationId,
+					summary,
+					summarized_until: older[older.length - 1].created_at,
+					updated_at: new Date().toISOString(),
+				};
+				const { error: upsertError } = await supabase.from('conversation_summaries').upsert([row], { onConflict: 'conversation_id' });
+				if (upsertError) console.error('Erro ao salvar resumo da conversa:', upsertError);
+				folded = older.length;
+			} catch (e) {
+				// Sem resumo novo: as mensagens antigas só ficam fora deste turno (tentamos de novo no próximo)
+				console.error('Erro ao resumir conversa:', e);
+			}
+		}
+	}
+
+	return {
+		summary,
+		messages,
+		report: {
+			budgetTokens,
+			summaryTokens: estimateTokens(summary || ''),
+			messageTokens: total(messages),
+			messages: messages.length,
+			folded,
+			truncated,
+		},
+	};
+}
+
+// ---------- Prompts versionados (persona + descrições das tools) ----------
+// prompt_versions guarda as versões editadas pelo time de conteúdo: uma 'active' e, opcionalmente,
+// uma 'candidate' que recebe traffic_percent% das conversas novas. Cada conversa fica presa à versão
+// sorteada (conversation_prompt_versions). Sem Supabase ou sem versões, vale o texto local abaixo.
+type PromptVersion = {
+	version: string;
+	systemPrompt: string;
+	// Sobrescreve a descrição de tools do registro (por nome)
+	toolDescriptions: Record<string, string>;
+};
+
+interface PromptVersionRow {
+	version: string;
+	tenant_id: string;
+	status: 'active' | 'candidate' | 'retired';
+	system_prompt: string;
+	tool_descriptions?: Record<string, string> | null;
+	traffic_percent?: number | null;
+}
+
+const PERSO_SYSTEM_PROMPT = `Você é o Perso, agente Weburn (fitness/nutri) no WhatsApp.
+
+Estilo:
+- Amigável, motivacional e direto; respostas curtas e úteis.
+- Não repita mensagens já enviadas pela Meta; use o histórico como contexto.
+- Normalize entradas como 1/2/3 ou a/b/c para os valores canônicos.
+
+Ferramentas (quando usar):
+- consultar_base_conhecimento: dúvidas de nutrição e metodologia de treino; responda com base no material Weburn e cite [n].
+- buscar_programas_weburn: sugerir programas conforme nível/modalidade/equipamentos.
+- send_whatsapp_text: confirmações/avisos curtos.
+- send_whatsapp_buttons: até 3 opções curtas.
+- send_whatsapp_list: listas maiores ou categorizadas.
+- Em botões e listas, preencha "value" com o valor canônico de cada opção (ex.: id do programa): o toque do usuário volta como escolha estruturada.
+- send_whatsapp_media: imagem/vídeo do treino, PDF da ficha ou nota de voz.
+- send_whatsapp_cta_url: botão com link (ex.: abrir o app Weburn); send_whatsapp_location: local sugerido.
+- send_whatsapp_reaction: reagir com emoji à mensagem do usuário; send_whatsapp_template: template aprovado (fora da janela de 24h).
+- gerenciar_agenda_treino: consultar, pausar/retomar ou trocar os dias de treino (lembretes).
+- consultar_perfil_usuario / atualizar_perfil_usuario: memória do usuário; use o perfil para preencher nivel/modalidade/possui_equipamentos sem perguntar de novo e salve correções.
+- registrar_refeicao_foto: foto de refeição no turno (a descrição da imagem já vem na mensagem); registre e comente o total do dia.
+- consultar_diario_alimentar: como está a alimentação do dia/semana frente à meta. Metas informadas pelo usuário vão para atualizar_perfil_usuario (meta_calorias, meta_*_g).
+- registrar_treino / registrar_medidas: quando o usuário contar que treinou (programa, duração, esforço) ou informar peso/medidas; confirme o que foi registrado.
+- consultar_progresso_treino: sequências, volume semanal e evolução para motivar e ajustar recomendações.
+
+Regras:
+- Encadeie ferramentas só quando necessário (ex.: buscar programas e depois enviar a lista); em erro, responda em texto com opções numeradas.`;
+
+const LOCAL_PROMPT_VERSION: PromptVersion = { version: 'local', systemPrompt: PERSO_SYSTEM_PROMPT, toolDescriptions: {} };
+
+const toPromptVersion = (row: PromptVersionRow): PromptVersion => ({
+	version: row.version,
+	systemPrompt: row.system_prompt,
+	toolDescriptions: row.tool_descriptions || {},
+});
+
+// Bucket estável 0..99 por conversa (mesma conversa cai sempre no mesmo lado do teste)
+async function promptBucket(conversationId: string) {
+	return parseInt((await sha256Hex(conversationId)).slice(0, 8), 16) % 100;
+}
+
+async function resolvePromptVersion(env: TenantEnv, supabase: SupabaseClient, conversationId: string): Promise<PromptVersion> {
+	// Persona local do tenant quando não há versão cadastrada
+	const local = env.tenant.persona ? { ...LOCAL_PROMPT_VERSION, systemPrompt: env.tenant.persona } : LOCAL_PROMPT_VERSION;
+	// Versões são por tenant (chave tenant_id + version): o mesmo nome de versão em outro tenant não vale aqui
+	const tenantId = env.tenant.id;
+	try {
+		const { data: pin } = await supabase
+			.from('conversation_prompt_versions')
+			.select('version')
+			.eq('tenant_id', tenantId)
+			.eq('conversation_id', conversationId)
+			.maybeSingle();
+		const { data: rows, error } = await supabase
+			.from('prompt_versions')
+			.select('*')
+			.eq('tenant_id', tenantId)
+			.in('status', ['active', 'candidate']);
+		if (error) throw error;
+		const versions = (rows || []) as PromptVersionRow[];
+
+		const pinned = pin && versions.find((v) => v.version === (pin as { version: string }).version);
+		if (pinned) return toPromptVersion(pinned);
+
+		const active = versions.find((v) => v.status === 'active');
+		const candidate = versions.find((v) => v.status === 'candidate');
+		let chosen = active;
+		if (candidate && (await promptBucket(conversationId)) < Number(candidate.traffic_percent ?? 0)) chosen = candidate;
+		if (!chosen) return local;
+
+		const { error: pinError } = await supabase
+			.from('conversation_prompt_versions')
+			.upsert([{ conversation_id: conversationId, tenant_id: tenantId, version: chosen.version, assigned_at: new Date().toISOString() }], {
+				onConflict: 'conversation_id',
+			});
+		if (pinError) console.error('Erro ao fixar versão do prompt:', pinError);
+		return toPromptVersion(chosen);
+	} catch (e) {
+		console.error('Erro ao carregar prompt versionado; usando texto local:', e);
+		return local;
+	}
+}
+
+// ---------- Agente: turno de conversa ----------
+type AgentTurnInput = {
+	conversationId: string;
+	newMessage: string;
+	// Opcional: telefone do usuário quando o turno chega direto do WhatsApp
+	userPhone?: string;
+	// true quando as mensagens do usuário já foram salvas na chegada (debounce)
+	persisted?: boolean;
+	// Opcional: toque em botão/lista resolvido para a opção enviada (ver "Menus interativos")
+	choice?: InteractiveChoice;
+	// Fotos anexadas neste turno (URL ou data URL), na ordem recebida: base da tool registrar_refeicao_foto
+	images?: string[];
+};
+
+type AgentTurnResult = {
+	response: string;
+	messagesInHistory: number;
+	toolCallsExecuted: number;
+	onboarding?: { status: OnboardingRow['status']; currentQuestion: OnboardingQuestionId | null };
+	context?: ConversationContext['report'] & { summary: boolean };
+	promptVersion?: string;
+	steps?: AgentStep[];
+	budgetExhausted?: 'steps' | 'time';
+	// Último modelo que respondeu no turno (pode ser um fallback da cadeia 'chat')
+	model?: ModelUsed;
+	// Anexos processados antes do turno (ver "Anexos no turno")
+	attachments?: AttachmentReport[];
+};
+
+type AgentStep = {
+	step: number;
+	toolCalls: { name: string; ok: boolean; durationMs: number }[];
+	durationMs: number;
+};
+
+// Resposta de contingência quando o orçamento de tempo acaba (mesmo formato prometido no prompt)
+const AGENT_FALLBACK_RESPONSE = `Não consegui concluir isso agora 😕 Você pode:
+1) Tentar de novo em instantes
+2) Me contar com outras palavras o que precisa
+3) Pedir uma sugestão de treino para hoje`;
+
+// Eventos do modo streaming (SSE) do POST raiz
+type AgentStreamEvent =
+	| { type: 'delta'; text: string }
+	| { type: 'tool_start'; id: string; name: string }
+	| { type: 'tool_end'; id: string; name: string; ok: boolean; durationMs: number };
+
+type AgentTurnHooks = {
+	onEvent?: (event: AgentStreamEvent) => void;
+	// Abortado quando o cliente SSE desconecta
+	signal?: AbortSignal;
+	// Trabalho pós-resposta (ex.: ctx.waitUntil); sem ele, o turno aguarda antes de retornar
+	defer?: (work: Promise<unknown>) => void;
+};
+
+type ChatParams = Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, 'model' | 'temperature' | 'max_tokens'>;
+
+// Chat completion na cadeia de modelos 'chat', com ou sem streaming; com onDelta, acumula deltas de
+// texto e de tool calls na mensagem final. Depois que algum texto chegou ao cliente não há fallback.
+async function completeChat(
+	env: TenantEnv,
+	params: ChatParams,
+	onDelta?: (text: string) => void,
+	signal?: AbortSignal
+): Promise<{ message: OpenAI.Chat.Completions.ChatCompletionMessage; used: ModelUsed }> {
+	let streamed = false;
+	const { result, used } = await withModelFallback(
+		env,
+		'chat',
+		async (client, target): Promise<OpenAI.Chat.Completions.ChatCompletionMessage> => {
+			const full = { ...params, model: target.model, temperature: target.temperature, max_tokens: target.maxTokens };
+			if (!onDelta) return (await client.chat.completions.create(full)).choices[0].message;
+
+			const stream = await client.chat.completions.create({ ...full, stream: true }, { signal });
+			let content = '';
+			const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] = [];
+			for await (const chunk of stream) {
+				const delta = chunk.choices[0]?.delta;
+				if (!delta) continue;
+				if (delta.content) {
+					content += delta.content;
+					streamed = true;
+					onDelta(delta.content);
+				}
+				for (const tc of delta.tool_calls || []) {
+					const current = (toolCalls[tc.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } });
+					if (tc.id) current.id = tc.id;
+					if (tc.function?.name) current.function.name += tc.function.name;
+					if (tc.function?.arguments) current.function.arguments += tc.function.arguments;
+				}
+			}
+			return { role: 'assistant', content: content || null, refusal: null, tool_calls: toolCalls.length > 0 ? toolCalls : undefined };
+		},
+		() => !streamed && !signal?.aborted
+	);
+	return { message: result, used };
+}
+
+const agentBudget = (env: TenantEnv) => ({
+	maxSteps: Math.max(1, Number(env.AGENT_MAX_STEPS ?? 4)),
+	timeBudgetMs: Math.max(1000, Number(env.AGENT_TIME_BUDGET_MS ?? 20_000)),
+});
+
+async function saveUserMessage(
+	env: TenantEnv,
+	supabase: SupabaseClient,
+	conversationId: string,
+	content: string,
+	userPhone?: string,
+	createdAt?: string
+) {
+	const { error: insertError } = await supabase
+		.from('conversation_history')
+		.insert([{ conversation_id: conversationId, role: 'user', content, ...(createdAt ? { created_at: createdAt } : {}) }]);
+	if (insertError) throw new Error(`Erro ao salvar mensagem do usuário: ${insertError.message}`);
+	await touchUserActivity(env, conversationId, { last_seen_at: new Date().toISOString(), phone: userPhone });
+	// Abre (ou renova) a janela de 24h do contato
+	if (userPhone) await recordInboundWindow(env, userPhone, createdAt ? new Date(createdAt) : new Date());
+}
+
+// Executa um turno completo do agente (histórico → OpenAI → tools → persistência).
+// Usado pelo POST raiz e pelo webhook nativo do WhatsApp.
+async function runAgentTurn(env: TenantEnv, input: AgentTurnInput, hooks: AgentTurnHooks = {}): Promise<AgentTurnResult> {
+	const { conversationId, newMessage, userPhone, images = [] } = input;
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+
+	// 1. Salvar a nova mensagem do usuário no histórico (no debounce, cada mensagem já foi salva ao chegar)
+	if (!input.persisted) await saveUserMessage(env, supabase, conversationId, newMessage, userPhone);
+
+	// 1.1 Onboarding pendente: a mensagem responde a pesquisa e o agente completo fica bloqueado
+	const onboarding = await loadOnboarding(supabase, conversationId);
+	if (onboarding && onboarding.status !== 'completed') {
+		// A próxima pergunta vai na própria resposta, depois do "Anotado!": enviada à parte pelo WhatsApp,
+		// chegaria antes da confirmação da resposta anterior
+		const step = await advanceOnboarding(env, supabase, onboarding, newMessage, { notify: false });
+		let response = step.ok
+			? step.row.status === 'completed'
+				? ONBOARDING_DONE_TEXT
+				: 'Anotado! ✅'
+			: 'Não entendi sua resposta. Escolha uma das opções 👇';
+		if (step.question) response += `\n\n${formatOnboardingQuestion(step.question)}`;
+
+		await saveConversationEntries(env, conversationId, [{ role: 'assistant', content: response }]);
+		return {
+			response,
+			messagesInHistory: 0,
+			toolCallsExecuted: 0,
+			onboarding: { status: step.row.status, currentQuestion: step.row.current_question },
+		};
+	}
+
+	// 2. Montar o contexto da conversa dentro do orçamento de tokens (recentes literais + resumo)
+	const context = await buildConversationContext(env, supabase, conversationId);
+	const history = context.messages;
+
+	console.log('Contexto montado:', context.report);
+
+	// 3. Preparar mensagens para a OpenAI (persona da versão de prompt fixada na conversa)
+	const prompt = await resolvePromptVersion(env, supabase, conversationId);
+	const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+		{
+			role: 'system',
+			content: prompt.systemPrompt,
+		},
+	];
+
+	// Contexto do canal: o modelo precisa do telefone para preencher "to" nas tools de envio
+	if (userPhone) {
+		messages.push({ role: 'system', content: `WhatsApp do usuário: ${userPhone}` });
+	}
+	if (onboarding?.status === 'completed') {
+		messages.push({ role: 'system', content: `Respostas do onboarding (use para personalizar): ${onboardingSummary(onboarding)}` });
+	}
+	const profile = await loadUserProfile(supabase, conversationId);
+	if (Object.keys(profile).length > 0) {
+		messages.push({ role: 'system', content: `Perfil do usuário (memória de longo prazo): ${formatUserProfile(profile)}` });
+	}
+	if (context.summary) {
+		messages.push({ role: 'system', content: `Resumo da conversa até aqui (mensagens antigas): ${context.summary}` });
+	}
+	if (input.choice) {
+		messages.push({ role: 'system', content: describeInteractiveChoice(input.choice) });
+	}
+
+	// Adicionar histórico de mensagens (mensagens seguidas do usuário viram um único turno)
+	if (history && history.length > 0) {
+		for (const msg of history) {
+			if (msg.role === 'user' || msg.role === 'assistant') {
+				const last = messages[messages.length - 1];
+				if (msg.role === 'user' && last.role === 'user' && typeof last.content === 'string') {
+					last.content += `\n${msg.content}`;
+					continue;
+				}
+				messages.push({
+					role: msg.role,
+					content: msg.content,
+				});
+			}
+		}
+	}
+
+	// 4. Ferramentas disponíveis (registro declarativo + N8N_TOOLS)
+	const registry = getToolRegistry(env);
+	const tools = toOpenAITools(registry, prompt.toolDescriptions);
+	// Tenant sem ferramentas habilitadas: a API recusa `tools: []`, então a chamada vai sem tools
+	const toolParams = tools.length > 0 ? { tools, tool_choice: 'auto' as const } : {};
+
+	// 5. Loop do agente: várias rodadas de ferramentas até a resposta final (ou orçamento esgotado)
+	const budget = agentBudget(env);
+	const startedAt = Date.now();
+	const steps: AgentStep[] = [];
+	let agentResponse = '';
+	let toolCallsExecuted = 0;
+	let budgetExhausted: AgentTurnResult['budgetExhausted'];
+	let modelUsed: ModelUsed | undefined;
+	// Texto já entregue ao cliente no passo atual (persistido se o stream for abortado)
+	let streamedText = '';
+	const onDelta = hooks.onEvent
+		? (text: string) => {
+				streamedText += text;
+				hooks.onEvent!({ type: 'delta', text });
+		  }
+		: undefined;
+
+	try {
+		for (let step = 1; ; step++) {
+			if (hooks.signal?.aborted) throw new Error('Stream abortado pelo cliente');
+			if (step > budget.maxSteps) {
+				budgetExhausted = 'steps';
+				break;
+			}
+			if (Date.now() - startedAt > budget.timeBudgetMs) {
+				budgetExhausted = 'time';
+				break;
+			}
+			const stepStartedAt = Date.now();
+			streamedText = '';
+			const { message: assistantMessage, used } = await completeChat(env, { messages, ...toolParams }, onDelta, hooks.signal);
+			modelUsed = used;
+
+			if (!assistantMessage.tool_calls || assistantMessage.tool_calls.length === 0) {
+				// Resposta final sem tool calls
+				agentResponse = assistantMessage.content || 'Desculpe, não consegui gerar uma resposta.';
+				steps.push({ step, toolCalls: [], durationMs: Date.now() - stepStartedAt });
+				break;
+			}
+
+			console.log(`Passo ${step}: executando tool calls:`, assistantMessage.tool_calls.length);
+			messages.push(assistantMessage);
+
+			// Tool calls do mesmo passo são independentes: leituras em paralelo, envios em ordem
+			const results = await executeToolCalls(
+				registry,
+				assistantMessage.tool_calls,
+				{ env, openai, conversationId, userPhone, images },
+				hooks.onEvent
+			);
+			for (const r of results) {
+				messages.push({ role: 'tool', tool_call_id: r.id, content: r.content });
+			}
+			toolCallsExecuted += results.length;
+			steps.push({
+				step,
+				toolCalls: results.map(({ name, ok, durationMs }) => ({ name, ok, durationMs })),
+				durationMs: Date.now() - stepStartedAt,
+			});
+		}
+
+		if (budgetExhausted === 'steps') {
+			// Última chamada sem ferramentas, como o prompt promete: texto com opções numeradas
+			messages.push({ role: 'system', content: 'Limite de ferramentas atingido: responda agora em texto, com opções numeradas.' });
+			streamedText = '';
+			const { message: finalMessage, used } = await completeChat(env, { messages }, onDelta, hooks.signal);
+			modelUsed = used;
+			agentResponse = finalMessage.content || AGENT_FALLBACK_RESPONSE;
+		} else if (budgetExhausted === 'time') {
+			agentResponse = AGENT_FALLBACK_RESPONSE;
+		}
+
+		console.log('Resposta do agente gerada:', agentResponse);
+		console.log('Tool calls executados:', toolCallsExecuted);
+	} catch (openaiError) {
+		if (hooks.signal?.aborted) {
+			// Cliente desconectou no meio do stream: guarda o que ele chegou a ver
+			console.log('Stream abortado; salvando resposta parcial');
+			agentResponse = streamedText;
+		} else {
+			console.error('Erro na API da OpenAI:', openaiError);
+			agentResponse = 'Desculpe, ocorreu um erro interno. Tente novamente em alguns instantes.';
+		}
+	}
+
+	// 6. Salvar a resposta do assistente no histórico
+	const { error: assistantInsertError } = agentResponse
+		? await supabase.from('conversation_history').insert([
+				{
+					conversation_id: conversationId,
+					role: 'assistant',
+					content: agentResponse,
+					prompt_version: prompt.version,
+				},
+		  ])
+		: { error: null };
+
+	if (assistantInsertError) {
+		console.error('Erro ao salvar resposta do assistente:', assistantInsertError);
+		// Não falha a requisição, apenas loga o erro
+	}
+
+	console.log('Resposta do agente gerada com sucesso:', agentResponse);
+
+	// 6.1 Atualizar o perfil com fatos novos desta troca (em background quando houver defer)
+	if (agentResponse && !hooks.signal?.aborted) {
+		const refresh = refreshUserProfile(env, conversationId, profile, newMessage, agentResponse);
+		if (hooks.defer) hooks.defer(refresh);
+		else await refresh;
+	}
+
+	return {
+		response: agentResponse,
+		messagesInHistory: history.length,
+		toolCallsExecuted,
+		onboarding: onboarding ? { status: onboarding.status, currentQuestion: onboarding.current_question } : undefined,
+		context: { ...context.report, summary: Boolean(context.summary) },
+		promptVersion: prompt.version,
+		steps,
+		budgetExhausted,
+		model: modelUsed,
+	};
+}
+
+// ---------- Entrada: deduplicação e serialização por conversa ----------
+// WhatsApp e n8n reenviam webhooks: o id da mensagem no provedor vira chave em inbound_messages.
+// Um insert só (unique em message_id) decide a corrida entre retries simultâneos; se o banco falhar
+// por outro motivo, a mensagem segue: responder em dobro é melhor que perder a mensagem.
+async function claimInboundMessage(supabase: SupabaseClient, messageId: string, conversationId: string) {
+	const { error } = await supabase
+		.from('inbound_messages')
+		.insert([{ message_id: messageId, conversation_id: conversationId, received_at: new Date().toISOString() }]);
+	if (!error) return true;
+	if (isUniqueViolation(error)) return false;
+	console.error('Erro ao registrar mensagem recebida, seguindo sem deduplicação:', messageId, error);
+	return true;
+}
+
+const CONVERSATION_LEASE_MS = 60_000;
+
+// Lock por conversationId (uma instância por conversa). O lease expira sozinho se o Worker
+// que segura o lock morrer antes de liberar.
+export class ConversationLock implements DurableObject {
+	private holder: { token: string; expiresAt: number } | null = null;
+	private waiters: (() => void)[] = [];
+
+	constructor(_state: DurableObjectState, _env: Env) {}
+
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		const token = url.searchParams.get('token');
+		if (!token) return json({ ok: false, error: 'MISSING_TOKEN' }, 400);
+
+		if (url.pathname === '/acquire') {
+			while (this.holder && this.holder.expiresAt > Date.now()) {
+				const wait = this.holder.expiresAt - Date.now();
+				await new Promise<void>((resolve) => {
+					this.waiters.push(resolve);
+					setTimeout(resolve, wait);
+				});
+			}
+			this.holder = { token, expiresAt: Date.now() + CONVERSATION_LEASE_MS };
+			return json({ ok: true });
+		}
+		if (url.pathname === '/release') {
+			if (this.holder?.token === token) {
+				this.holder = null;
+				const waiters = this.waiters;
+				this.waiters = [];
+				waiters.forEach((wake) => wake());
+			}
+			return json({ ok: true });
+		}
+		return json({ ok: false, error: 'NOT_FOUND' }, 404);
+	}
+}
+
+// Fallback sem CONVERSATION_LOCK (dev/testes): fila de promises por conversa no próprio isolate
+const localConversationLocks = new Map<string, Promise<unknown>>();
+
+async function withConversationLock<T>(env: TenantEnv, conversationId: string, fn: () => Promise<T>): Promise<T> {
+	if (!env.CONVERSATION_LOCK) {
+		const previous = localConversationLocks.get(conversationId) ?? Promise.resolve();
+		const run = previous.then(fn);
+		const tail = run.catch(() => undefined);
+		localConversationLocks.set(conversationId, tail);
+		try {
+			return await run;
+		} finally {
+			if (localConversationLocks.get(conversationId) === tail) localConversationLocks.delete(conversationId);
+		}
+	}
+
+	const stub = env.CONVERSATION_LOCK.get(env.CONVERSATION_LOCK.idFromName(conversationId));
+	const token = crypto.randomUUID();
+	const acquired = await stub.fetch(`https://lock/acquire?token=${token}`, { method: 'POST' });
+	if (!acquired.ok) throw new Error(`Falha ao obter lock da conversa: HTTP ${acquired.status}`);
+	try {
+		return await fn();
+	} finally {
+		await stub
+			.fetch(`https://lock/release?token=${token}`, { method: 'POST' })
+			.catch((e) => console.error('Erro ao liberar lock da conversa:', e));
+	}
+}
+
+// Debounce: cada mensagem é salva ao chegar; quem responde é a última mensagem de texto depois
+// que a conversa fica INBOUND_DEBOUNCE_MS em silêncio. Transcrições de /multimodal/audio
+// ("[áudio] ...") também estendem a janela e entram no turno, mas não disparam o agente sozinhas.
+const isAudioTranscript = (content: string) => content.startsWith('[áudio]');
+
+// Mensagens do usuário ainda sem resposta (depois da última resposta do assistente), em ordem
+async function loadPendingUserMessages(supabase: SupabaseClient, conversationId: string) {
+	const { data } = await supabase
+		.from('conversation_history')
+		.select('role, content, created_at')
+		.eq('conversation_id', conversationId)
+		.order('created_at', { ascending: false })
+		.limit(20);
+	const pending: ConversationMessage[] = [];
+	for (const row of (data || []) as ConversationMessage[]) {
+		if (row.role !== 'user') break;
+		pending.unshift(row);
+	}
+	return pending;
+}
+
+// true quando esta mensagem fecha a rajada; false quando uma mensagem de texto mais nova assume o turno
+async function waitForQuietWindow(supabase: SupabaseClient, conversationId: string, savedAt: string, windowMs: number) {
+	let lastActivity = Date.parse(savedAt);
+	for (;;) {
+		await sleep(Math.max(0, lastActivity + windowMs - Date.now()));
+		const pending = await loadPendingUserMessages(supabase, conversationId);
+		if (pending.some((m) => m.created_at > savedAt && !isAudioTranscript(m.content))) return false;
+		const latest = pending[pending.length - 1];
+		if (!latest) return false;
+		lastActivity = Date.parse(latest.created_at);
+		if (Date.now() - lastActivity >= windowMs) return true;
+	}
+}
+
+type InboundTurnInput = AgentTurnInput & { messageId?: string; attachments?: TurnAttachment[] };
+
+type InboundTurnOutcome = { status: 'answered'; turn: AgentTurnResult } | { status: 'duplicate' } | { status: 'merged' };
+
+// Turno de uma mensagem recebida: ignora duplicadas, junta rajadas e roda um turno por vez por conversa
+async function runInboundTurn(env: TenantEnv, input: InboundTurnInput, hooks?: AgentTurnHooks): Promise<InboundTurnOutcome> {
+	const { messageId, attachments, ...turnInput } = input;
+	const { conversationId } = input;
+	const debounceMs = Math.max(0, Number(env.INBOUND_DEBOUNCE_MS ?? 0));
+	const supabase = messageId || debounceMs > 0 ? createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY) : null;
+	if (supabase && messageId && !(await claimInboundMessage(supabase, messageId, conversationId))) {
+		console.log('Mensagem duplicada ignorada:', messageId);
+		return { status: 'duplicate' };
+	}
+	try {
+		// Anexos viram texto depois da deduplicação: um retry do provedor não repete transcrição/visão
+		const resolved = attachments?.length ? await resolveAttachments(env, attachments, input.newMessage) : null;
+		if (resolved) {
+			turnInput.newMessage = resolved.message;
+			turnInput.images = resolved.images;
+		}
+		const answered = (turn: AgentTurnResult): InboundTurnOutcome => ({
+			status: 'answered',
+			turn: resolved ? { ...turn, attachments: resolved.reports } : turn,
+		});
+
+		if (!supabase || debounceMs === 0) {
+			return answered(await withConversationLock(env, conversationId, () => runAgentTurn(env, turnInput, hooks)));
+		}
+
+		const savedAt = new Date().toISOString();
+		await saveUserMessage(env, supabase, conversationId, turnInput.newMessage, input.userPhone, savedAt);
+		if (!(await waitForQuietWindow(supabase, conversationId, savedAt, debounceMs))) return { status: 'merged' };
+
+		return await withConversationLock(env, conversationId, async (): Promise<InboundTurnOutcome> => {
+			// Dentro do lock: um turno anterior pode já ter respondido estas mensagens
+			const pending = await loadPendingUserMessages(supabase, conversationId);
+			if (pending.length === 0) return { status: 'merged' };
+			const newMessage = pending.map((m) => m.content).join('\n');
+			return answered(await runAgentTurn(env, { ...turnInput, newMessage, persisted: true }, hooks));
+		});
+	} catch (e) {
+		// Falhou sem responder: libera o id para o retry do provedor processar de novo
+		if (supabase && messageId) await supabase.from('inbound_messages').delete().eq('message_id', messageId);
+		throw e;
+	}
+}
+
+// Resposta para mensagem que não gerou turno próprio: retry do provedor (duplicate) ou
+// rajada respondida por uma mensagem mais nova (merged)
+const skippedTurnBody = (conversationId: string, reason: 'duplicate' | 'merged', messageId?: string) => ({
+	success: true,
+	conversationId,
+	[reason]: true,
+	response: null,
+	metadata: { messageId, timestamp: new Date().toISOString() },
+});
+
+// Corpo de resposta do POST raiz (também é o evento final do SSE)
+const agentTurnBody = (env: TenantEnv, conversationId: string, turn: AgentTurnResult) => ({
+	success: true,
+	conversationId,
+	response: turn.response,
+	// Resposta já formatada e quebrada para o WhatsApp
+	mensagens: toWhatsAppMessages(env, turn.response),
+	metadata: {
+		messagesInHistory: turn.messagesInHistory,
+		toolCallsExecuted: turn.toolCallsExecuted,
+		onboarding: turn.onboarding,
+		context: turn.context,
+		promptVersion: turn.promptVersion,
+		steps: turn.steps,
+		budgetExhausted: turn.budgetExhausted,
+		model: turn.model,
+		attachments: turn.attachments,
+		timestamp: new Date().toISOString(),
+	},
+});
+
+// SSE: event: delta | tool_start | tool_end | done | error. O turno continua em waitUntil, então a
+// resposta é persistida mesmo se o cliente desconectar (nesse caso, só o texto já entregue).
+function streamAgentTurn(env: TenantEnv, ctx: ExecutionContext, input: InboundTurnInput): Response {
+	const encoder = new TextEncoder();
+	const abort = new AbortController();
+	let output!: ReadableStreamDefaultController<Uint8Array>;
+	let closed = false;
+	let sentDelta = false;
+
+	const send = (event: string, data: unknown) => {
+		if (closed) return;
+		output.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+	};
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			output = controller;
+		},
+		cancel() {
+			closed = true;
+			abort.abort();
+		},
+	});
+
+	const onEvent = ({ type, ...data }: AgentStreamEvent) => {
+		if (type === 'delta') sentDelta = true;
+		send(type, data);
+	};
+
+	const done = runInboundTurn(env, input, { onEvent, signal: abort.signal, defer: (work) => ctx.waitUntil(work) })
+		.then((outcome) => {
+			const conversationId = unscopeTenantId(env, input.conversationId);
+			if (outcome.status !== 'answered') return send('done', skippedTurnBody(conversationId, outcome.status, input.messageId));
+			const { turn } = outcome;
+			// Respostas que não passam pelo modelo (onboarding, fallback) chegam num único delta
+			if (!sentDelta && turn.response) send('delta', { text: turn.response });
+			send('done', agentTurnBody(env, conversationId, turn));
+		})
+		.catch((e: any) => {
+			console.error('Erro no stream do agente:', e);
+			send('error', { success: false, error: e?.message || String(e) });
+		})
+		.finally(() => {
+			if (closed) return;
+			closed = true;
+			output.close();
+		});
+	ctx.waitUntil(done);
+
+	return new Response(stream, {
+		headers: { 'content-type': 'text/event-stream; charset=utf-8', 'cache-control': 'no-cache', connection: 'keep-alive' },
+	});
+}
+
+// ---------- WhatsApp Cloud API: webhook nativo ----------
+type WhatsAppInboundBase = {
+	id: string;
+	from: string; // telefone normalizado (+55...)
+	waId: string; // wa_id original da Meta (usado como conversationId, igual ao n8n)
+	timestamp: number;
+	phoneNumberId?: string;
+	contactName?: string;
+};
+
+type WhatsAppInbound =
+	| (WhatsAppInboundBase & { type: 'text'; text: string })
+	| (WhatsAppInboundBase & {
+			type: 'interactive';
+			reply: { kind: 'button_reply' | 'list_reply' | 'button'; id: string; title: string; description?: string };
+	  })
+	| (WhatsAppInboundBase & {
+			type: 'media';
+			media: {
+				kind: 'image' | 'audio' | 'video' | 'document' | 'sticker';
+				id: string;
+				mimeType?: string;
+				caption?: string;
+				filename?: string;
+				voice?: boolean;
+			};
+	  });
+
+type WhatsAppStatus = {
+	type: 'status';
+	id: string;
+	recipientId: string;
+	status: string; // sent | delivered | read | failed
+	timestamp: number;
+	phoneNumberId?: string;
+	errors?: { code: number; title?: string }[];
+};
+
+type WhatsAppEvent = WhatsAppInbound | WhatsAppStatus;
+
+// Mesma regra do nó "Padronizar Dados" do n8n: celulares BR antigos chegam sem o 9º dígito
+const normalizeBrazilianPhone = (phone: string) => {
+	let digits = (phone || '').replace(/\D/g, '');
+	if (digits.startsWith('55')) {
+		const national = digits.substring(2);
+		if (national.length === 10 && ['6', '7', '8', '9'].includes(national.substring(2, 3))) {
+			digits = `55${national.substring(0, 2)}9${national.substring(2)}`;
+		}
+	}
+	return normPhone(digits);
+};
+
+const toHex = (buf: ArrayBuffer) => [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, '0')).join('');
+
+async function hmacSha256Hex(secret: string, data: string) {
+	const enc = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return toHex(await crypto.subtle.sign('HMAC', key, enc.encode(data)));
+}
+
+const timingSafeEqual = (a: string, b: string) => {
+	if (a.length !== b.length) return false;
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	return diff === 0;
+};
+
+async function verifyWhatsAppSignature(appSecret: string, rawBody: string, header: string | null) {
+	if (!header || !header.startsWith('sha256=')) return false;
+	const expected = await hmacSha256Hex(appSecret, rawBody);
+	return timingSafeEqual(header.slice('sha256='.length).toLowerCase(), expected);
+}
+
+function parseWhatsAppWebhook(payload: any): WhatsAppEvent[] {
+	const events: WhatsAppEvent[] = [];
+	for (const entry of payload?.entry || []) {
+		for (const change of entry?.changes || []) {
+			const value = change?.value || {};
+			const phoneNumberId: string | undefined = value.metadata?.phone_number_id;
+			const names = new Map<string, string>();
+			for (const c of value.contacts || []) names.set(String(c?.wa_id), c?.profile?.name);
+
+			for (const m of value.messages || []) {
+				const base: WhatsAppInboundBase = {
+					id: String(m.id),
+					from: normalizeBrazilianPhone(String(m.from)),
+					waId: String(m.from),
+					timestamp: Number(m.timestamp) || 0,
+					phoneNumberId,
+					contactName: names.get(String(m.from)),
+				};
+				if (m.type === 'text') {
+					events.push({ ...base, type: 'text', text: String(m.text?.body ?? '') });
+				} else if (m.type === 'interactive') {
+					const kind = m.interactive?.type;
+					const r = kind === 'list_reply' ? m.interactive.list_reply : m.interactive?.button_reply;
+					if (!r) continue;
+					events.push({
+						...base,
+						type: 'interactive',
+						reply: { kind: kind === 'list_reply' ? 'list_reply' : 'button_reply', id: String(r.id), title: String(r.title ?? ''), description: r.description },
+					});
+				} else if (m.type === 'button') {
+					// quick reply de template
+					events.push({
+						...base,
+						type: 'interactive',
+						reply: { kind: 'button', id: String(m.button?.payload ?? ''), title: String(m.button?.text ?? '') },
+					});
+				} else if (['image', 'audio', 'video', 'document', 'sticker'].includes(m.type)) {
+					const media = m[m.type] || {};
+					events.push({
+						...base,
+						type: 'media',
+						media: {
+							kind: m.type,
+							id: String(media.id ?? ''),
+							mimeType: media.mime_type,
+							caption: media.caption,
+							filename: media.filename,
+							voice: media.voice,
+						},
+					});
+				} else {
+					console.log('WhatsApp: tipo de mensagem ignorado:', m.type);
+				}
+			}
+
+			for (const s of value.statuses || []) {
+				events.push({
+					type: 'status',
+					id: String(s.id),
+					recipientId: String(s.recipient_id ?? ''),
+					status: String(s.status ?? ''),
+					timestamp: Number(s.timestamp) || 0,
+					phoneNumberId,
+					errors: Array.isArray(s.errors) ? s.errors.map((e: any) => ({ code: Number(e?.code), title: e?.title })) : undefined,
+				});
+			}
+		}
+	}
+	return events;
+}
+
+// Texto que entra no turno do agente (mesmos rótulos usados pelo n8n)
+function inboundToMessageText(msg: WhatsAppInbound): string {
+	if (msg.type === 'text') return msg.text;
+	if (msg.type === 'interactive') return msg.reply.title || msg.reply.id;
+	const labels: Record<string, string> = {
+		image: '[Imagem enviada]',
+		audio: '[Áudio enviado]',
+		video: '[Vídeo enviado]',
+		document: '[Documento enviado]',
+		sticker: '[Figurinha enviada]',
+	};
+	return msg.media.caption || labels[msg.media.kind];
+}
+
+function inboundAttachments(env: TenantEnv, msg: WhatsAppInbound): TurnAttachment[] | undefined {
+	if (msg.type !== 'media' || msg.media.kind === 'sticker' || !msg.media.id || !env.WHATSAPP_ACCESS_TOKEN) return undefined;
+	const { kind, id, mimeType, caption, filename } = msg.media;
+	// Vídeo não tem tipo próprio: o MIME real (video/*) leva à transcrição do áudio
+	const type = kind === 'video' ? undefined : kind;
+	return [{ type, mediaId: id, mimeType, caption, filename }];
+}
+
+async function processWhatsAppEvents(env: Env, events: WhatsAppEvent[], routeTenant?: Tenant) {
+	for (const ev of events) {
+		if (ev.type === 'status') {
+			console.log('WhatsApp status:', ev.id, ev.status, ev.errors ?? '');
+			continue;
+		}
+		try {
+			// Tenant pelo número que recebeu a mensagem (phone_number_id), senão o da rota /t/<id>
+			const tenantEnv = applyTenant(env, tenantByPhoneNumberId(env, ev.phoneNumberId) ?? routeTenant ?? defaultTenant(env));
+			const conversationId = scopeTenantId(tenantEnv, ev.waId);
+			// Com token, imagem/áudio/vídeo/documento vão pelo pipeline de anexos; sem ele (e figurinhas), só o rótulo
+			const attachments = inboundAttachments(tenantEnv, ev);
+			const newMessage = attachments ? '' : inboundToMessageText(ev);
+			if (!newMessage && !attachments) continue;
+			// Toque em botão/lista que enviamos (quick replies de template não passam por interactive_menus)
+			const choice =
+				ev.type === 'interactive' && ev.reply.kind !== 'button' ? await resolveInteractiveReply(tenantEnv, ev.from, ev.reply) : undefined;
+			const outcome = await runInboundTurn(tenantEnv, { conversationId, newMessage, userPhone: ev.from, messageId: ev.id, choice, attachments });
+			if (outcome.status !== 'answered') continue;
+			const { turn } = outcome;
+			const sent = await sendWhatsAppMessages(tenantEnv, ev.from, toWhatsAppMessages(tenantEnv, turn.response), crypto.randomUUID(), {
+				idempotencyPrefix: `reply:${ev.id}`,
+				replyTo: ev.id,
+			});
+			if (sent.error) console.error('WhatsApp: falha ao enviar resposta:', sent.error);
+		} catch (e) {
+			console.error('WhatsApp: erro ao processar mensagem', ev.id, e);
+		}
+	}
+}
+
+async function handleWhatsAppWebhook(request: Request, env: Env, ctx: ExecutionContext, routeTenant?: Tenant): Promise<Response> {
+	if (request.method === 'GET') {
+		// Verificação do webhook (hub.challenge)
+		const params = new URL(request.url).searchParams;
+		const verifyToken = env.WHATSAPP_VERIFY_TOKEN;
+		if (params.get('hub.mode') === 'subscribe' && verifyToken && params.get('hub.verify_token') === verifyToken) {
+			return new Response(params.get('hub.challenge') ?? '', { status: 200 });
+		}
+		return json({ ok: false, error: 'VERIFICATION_FAILED' }, 403);
+	}
+	if (request.method !== 'POST') return new Response('Método não permitido', { status: 405 });
+
+	if (!env.WHATSAPP_APP_SECRET) return json({ ok: false, error: 'Missing WHATSAPP_APP_SECRET' }, 500);
+	const rawBody = await request.text();
+	const valid = await verifyWhatsAppSignature(env.WHATSAPP_APP_SECRET, rawBody, request.headers.get('x-hub-signature-256'));
+	if (!valid) return json({ ok: false, error: 'INVALID_SIGNATURE' }, 401);
+
+	let payload: any;
+	try {
+		payload = JSON.parse(rawBody);
+	} catch {
+		return json({ ok: false, error: 'Invalid JSON body' }, 400);
+	}
+	const events = parseWhatsAppWebhook(payload);
+	// A Meta exige 200 rápido: o turno do agente roda em background
+	ctx.waitUntil(processWhatsAppEvents(env, events, routeTenant));
+	return json({ ok: true, received: events.length }, 200);
+}
+
+// ---------- Tenants (vários agentes/marcas no mesmo Worker) ----------
+// O tenant padrão (Weburn) usa as vars do Env. TENANTS (JSON) acrescenta outros clientes, ex.:
+// [{ "id": "acme", "name": "Acme Fit", "persona": "Você é a Lia...", "enabledTools": ["send_whatsapp_text"],
+//    "catalogUrl": "https://...", "n8nWebhookUrl": "https://...", "n8nApiKey": "...", "model": "gpt-4o",
+//    "temperature": 0.5, "whatsappPhoneNumberIds": ["1234567890"] }]
+// Resolução: rota /t/<id>/..., campo "tenant" do cliente em API_CLIENTS ou phone_number_id do WhatsApp.
+type Tenant = {
+	id: string;
+	name: string;
+	// System prompt local do tenant (fallback quando não há prompt versionado)
+	persona?: string;
+	// Ferramentas liberadas (ausente = todas)
+	enabledTools?: string[];
+	catalogUrl?: string;
+	n8nWebhookUrl?: string;
+	n8nApiKey?: string;
+	// Projeto Supabase próprio (opcional); sem ele, os ids ganham o prefixo "<tenant>:"
+	supabaseUrl?: string;
+	supabaseAnonKey?: string;
+	model?: string;
+	temperature?: number;
+	whatsappPhoneNumberIds?: string[];
+	// Template aprovado do tenant para envios fora da janela de 24h (mesmo formato de WHATSAPP_WINDOW_TEMPLATE)
+	windowTemplate?: WindowTemplate;
+	// Token da Cloud API do tenant para baixar mídias (padrão: WHATSAPP_ACCESS_TOKEN)
+	whatsappAccessToken?: string;
+};
+
+// Contexto de execução de um tenant: as vars do Env com as sobreposições do tenant, mais o próprio tenant.
+// O Env descreve só bindings e vars do Worker; todo o código abaixo das rotas/jobs recebe um TenantEnv.
+type TenantEnv = Env & { readonly tenant: Tenant };
+
+const DEFAULT_TENANT_ID = 'weburn';
+
+function parseTenants(env: Env): Map<string, Tenant> {
+	const tenants = new Map<string, Tenant>([[DEFAULT_TENANT_ID, { id: DEFAULT_TENANT_ID, name: 'Weburn' }]]);
+	if (!env.TENANTS) return tenants;
+	try {
+		const parsed = JSON.parse(env.TENANTS);
+		for (const t of Array.isArray(parsed) ? parsed : []) {
+			if (t && typeof t.id === 'string') tenants.set(t.id, { ...tenants.get(t.id), ...t, name: t.name || t.id });
+		}
+	} catch {
+		console.error('TENANTS inválido: esperado um array JSON');
+	}
+	return tenants;
+}
+
+const defaultTenant = (env: Env) => parseTenants(env).get(DEFAULT_TENANT_ID)!;
+
+// Env efetivo do tenant: o restante do código só lê o Env, então basta sobrepor as vars do tenant
+function applyTenant(env: Env, tenant: Tenant): TenantEnv {
+	return {
+		...env,
+		tenant,
+		N8N_WEBHOOK_URL: tenant.n8nWebhookUrl ?? env.N8N_WEBHOOK_URL,
+		N8N_API_KEY: tenant.n8nApiKey ?? env.N8N_API_KEY,
+		WEBURN_API_URL: tenant.catalogUrl ?? env.WEBURN_API_URL,
+		SUPABASE_URL: tenant.supabaseUrl ?? env.SUPABASE_URL,
+		SUPABASE_ANON_KEY: tenant.supabaseAnonKey ?? env.SUPABASE_ANON_KEY,
+		WHATSAPP_WINDOW_TEMPLATE: tenant.windowTemplate ? JSON.stringify(tenant.windowTemplate) : env.WHATSAPP_WINDOW_TEMPLATE,
+		WHATSAPP_ACCESS_TOKEN: tenant.whatsappAccessToken ?? env.WHATSAPP_ACCESS_TOKEN,
+	};
+}
+
+// Tenants no Supabase compartilhado são isolados pelo prefixo "<tenant>:" nos ids de conversa/usuário
+// (o padrão mantém os ids originais, compatível com os dados existentes)
+const tenantPrefix = (env: TenantEnv) => (env.tenant.id !== DEFAULT_TENANT_ID && !env.tenant.supabaseUrl ? `${env.tenant.id}:` : '');
+
+const scopeTenantId = (env: TenantEnv, id: string) => `${tenantPrefix(env)}${id}`;
+
+const unscopeTenantId = (env: TenantEnv, id: string) => {
+	const prefix = tenantPrefix(env);
+	return prefix && id.startsWith(prefix) ? id.slice(prefix.length) : id;
+};
+
+// Rotas que recebem ids no corpo (onboarding, agenda, atividade, multimodal)
+function scopeTenantIds(env: TenantEnv, body: any) {
+	for (const key of ['userId', 'conversationId']) {
+		if (typeof body?.[key] === 'string' && body[key]) body[key] = scopeTenantId(env, body[key]);
+	}
+	return body;
+}
+
+// Fila de reenvio: a mensagem carrega o id do tenant que a enviou
+function envForTenantId(env: Env, tenantId?: string): TenantEnv {
+	const tenants = parseTenants(env);
+	return applyTenant(env, (tenantId && tenants.get(tenantId)) || tenants.get(DEFAULT_TENANT_ID)!);
+}
+
+// Cron: cada ciclo lê o Supabase de um tenant. Num projeto próprio todos os ids são dele; no
+// compartilhado, o prefixo "<tenant>:" indica o dono (sem prefixo = tenant padrão)
+const envForScopedId = (env: TenantEnv, id: string) =>
+	env.tenant.supabaseUrl ? env : envForTenantId(env, id.includes(':') ? id.slice(0, id.indexOf(':')) : undefined);
+
+// Um ciclo de jobs por projeto Supabase: o compartilhado (tenant padrão e tenants com prefixo) e cada projeto próprio
+const cronTenantEnvs = (env: Env) =>
+	[...parseTenants(env).values()].filter((t) => t.id === DEFAULT_TENANT_ID || t.supabaseUrl).map((t) => applyTenant(env, t));
+
+const tenantByPhoneNumberId = (env: Env, phoneNumberId?: string) =>
+	phoneNumberId ? [...parseTenants(env).values()].find((t) => t.whatsappPhoneNumberIds?.includes(phoneNumberId)) : undefined;
+
+function tenantHealth(env: Env, tenant: Tenant) {
+	const has = (v?: string) => typeof v === 'string' && v.length > 0;
+	const tenantEnv = applyTenant(env, tenant);
+	return {
+		id: tenant.id,
+		name: tenant.name,
+		n8n: has(tenantEnv.N8N_WEBHOOK_URL) && has(tenantEnv.N8N_API_KEY),
+		catalog: has(tenantEnv.WEBURN_API_URL ?? ''),
+		storage: tenant.supabaseUrl ? 'dedicated' : tenantPrefix(tenantEnv) ? 'shared-prefixed' : 'default',
+		supabase: has(tenantEnv.SUPABASE_URL) && has(tenantEnv.SUPABASE_ANON_KEY),
+		persona: tenant.persona ? 'custom' : 'default',
+		model: modelRoute(tenantEnv, 'chat')[0].model,
+		tools: getToolRegistry(tenantEnv).size,
+		whatsappPhoneNumbers: tenant.whatsappPhoneNumberIds?.length ?? 0,
+	};
+}
+
+// ---------- Autenticação de clientes ----------
+// API_CLIENTS (secret) é um JSON com um item por cliente, ex.:
+// [{ "id": "n8n", "keyHash": "<sha256 hex da chave>", "hmacSecret": "...", "requireSignature": true }]
+// Para revogar uma chave: "revoked": true (ou remova o cliente).
+type ApiClient = {
+	id: string;
+	keyHash?: string;
+	hmacSecret?: string;
+	requireSignature?: boolean;
+	revoked?: boolean;
+	// Opcional: restringe o cliente a um tenant (sem ele, o cliente usa o padrão ou o da rota /t/<id>)
+	tenant?: string;
+};
+
+type AuthResult = { ok: true; client: ApiClient } | { ok: false; response: Response };
+
+const SIGNATURE_TOLERANCE_MS = 5 * 60_000;
+
+// Assinaturas já vistas dentro da janela de tolerância ficam em api_request_nonces (valem para todos os
+// isolates). Este mapa só é usado sem Supabase configurado ou com o banco fora do ar.
+const seenSignatures = new Map<string, number>();
+
+const authError = (status: 401 | 403, detail: string): AuthResult => ({
+	ok: false,
+	response: json({ ok: false, error: status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN', detail }, status),
+});
+
+function parseApiClients(raw?: string): ApiClient[] {
+	if (!raw) return [];
+	try {
+		const parsed = JSON.parse(raw);
+		return Array.isArray(parsed) ? parsed.filter((c) => c && typeof c.id === 'string') : [];
+	} catch {
+		console.error('API_CLIENTS inválido: esperado um array JSON');
+		return [];
+	}
+}
+
+async function sha256Hex(data: string) {
+	return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)));
+}
+
+// false = assinatura já usada (replay). O primary key em signature decide a corrida entre isolates.
+async function rememberSignature(env: Env, signature: string, now: number) {
+	if (env.SUPABASE_URL && env.SUPABASE_ANON_KEY) {
+		const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+		const { error } = await supabase
+			.from('api_request_nonces')
+			.insert([{ signature, expires_at: new Date(now + SIGNATURE_TOLERANCE_MS).toISOString() }]);
+		if (!error) return true;
+		if (isUniqueViolation(error)) return false;
+		console.error('Erro ao registrar assinatura, usando só a memória do isolate:', error);
+	}
+	for (const [sig, expiresAt] of seenSignatures) if (expiresAt < now) seenSignatures.delete(sig);
+	if (seenSignatures.has(signature)) return false;
+	seenSignatures.set(signature, now + SIGNATURE_TOLERANCE_MS);
+	return true;
+}
+
+// Autentica o chamador por API key (Authorization: Bearer / x-api-key) e/ou
+// assinatura HMAC-SHA256 de `${x-timestamp}.${body}` (x-client-id + x-signature).
+async function authenticateRequest(request: Request, env: Env): Promise<AuthResult> {
+	const clients = parseApiClients(env.API_CLIENTS);
+	if (clients.length === 0) return authError(401, 'No API clients configured');
+
+	const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+	const apiKey = bearer || request.headers.get('x-api-key');
+	const signature = request.headers.get('x-signature');
+	const clientId = request.headers.get('x-client-id');
+
+	let client: ApiClient | undefined;
+	if (apiKey) {
+		const hash = await sha256Hex(apiKey);
+		client = clients.find((c) => c.keyHash && timingSafeEqual(c.keyHash.toLowerCase(), hash));
+		if (!client) return authError(401, 'Invalid API key');
+	} else if (clientId && signature) {
+		client = clients.find((c) => c.id === clientId);
+		if (!client || !client.hmacSecret) return authError(401, 'Unknown client');
+	} else {
+		return authError(401, 'Missing credentials');
+	}
+	if (client.revoked) return authError(403, 'API key revoked');
+
+	if (signature || client.requireSignature) {
+		if (!client.hmacSecret) return authError(403, 'Signature not enabled for this client');
+		if (!signature) return authError(403, 'Missing signature');
+		const timestamp = Number(request.headers.get('x-timestamp'));
+		const now = Date.now();
+		// aceita segundos ou milissegundos
+		const tsMs = timestamp < 1e12 ? timestamp * 1000 : timestamp;
+		if (!Number.isFinite(tsMs) || Math.abs(now - tsMs) > SIGNATURE_TOLERANCE_MS) return authError(403, 'Stale or missing timestamp');
+		const rawBody = await request.clone().text();
+		const expected = await hmacSha256Hex(client.hmacSecret, `${request.headers.get('x-timestamp')}.${rawBody}`);
+		if (!timingSafeEqual(signature.replace(/^sha256=/, '').toLowerCase(), expected)) return authError(403, 'Invalid signature');
+		if (!(await rememberSignature(env, expected, now))) return authError(403, 'Replayed request');
+	}
+	return { ok: true, client };
+}
+
+// Limpeza das assinaturas vencidas (depois da janela de tolerância elas já seriam recusadas pelo timestamp)
+async function purgeExpiredNonces(env: Env, now: Date) {
+	if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY) return;
+	const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
+	const { error } = await supabase.from('api_request_nonces').delete().lt('expires_at', now.toISOString());
+	if (error) console.error('Erro ao limpar assinaturas vencidas:', error);
+}
+
+// ---------- Worker ----------
+export default {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		let { pathname } = new URL(request.url);
+		// Tenant explícito na rota: /t/<id>/...
+		const tenants = parseTenants(env);
+		let routeTenant: Tenant | undefined;
+		const tenantRoute = pathname.match(/^\/t\/([^/]+)(\/.*)?$/);
+		if (tenantRoute) {
+			routeTenant = tenants.get(tenantRoute[1]);
+			if (!routeTenant) return json({ ok: false, error: 'UNKNOWN_TENANT' }, 404);
+			pathname = tenantRoute[2] || '/';
+		}
+		if (pathname === '/webhooks/whatsapp') {
+			return handleWhatsAppWebhook(request, env, ctx, routeTenant);
+		}
+		if (request.method === 'GET' && pathname === '/health') {
+			const has = (v?: string) => typeof v === 'string' && v.length > 0;
+			const n8nBase = trimTrailingSlash(env.N8N_WEBHOOK_URL);
+			const apiClients = parseApiClients(env.API_CLIENTS);
+			const health = {
 				ok: has(env.OPENAI_API_KEY) && has(env.SUPABASE_URL) && has(env.SUPABASE_ANON_KEY),
 				vars: {
 					OPENAI_API_KEY: has(env.OPENAI_API_KEY),
@@ -326,10 +4976,17 @@ export default {
 					N8N_WEBHOOK_URL: has(env.N8N_WEBHOOK_URL),
 					N8N_API_KEY: has(env.N8N_API_KEY),
 					WEBURN_API_URL: has(env.WEBURN_API_URL ?? ''),
+					WHATSAPP_VERIFY_TOKEN: has(env.WHATSAPP_VERIFY_TOKEN),
+					WHATSAPP_APP_SECRET: has(env.WHATSAPP_APP_SECRET),
+					WHATSAPP_ACCESS_TOKEN: has(env.WHATSAPP_ACCESS_TOKEN),
+					API_CLIENTS: apiClients.length > 0,
+				},
+				auth: {
+					clients: apiClients.filter((c) => !c.revoked).length,
 				},
+				tenants: [...tenants.values()].map((t) => tenantHealth(env, t)),
 				n8n: {
 					configured: has(env.N8N_WEBHOOK_URL),
-					base: n8nBase,
 					recommendation: has(env.N8N_WEBHOOK_URL) && env.N8N_WEBHOOK_URL !== n8nBase ? 'remove trailing slash' : 'ok',
 				},
 				timestamp: new Date().toISOString(),
@@ -340,26 +4997,105 @@ export default {
 			return new Response('Método não permitido', { status: 405 });
 		}
 
+		// Demais rotas exigem cliente autenticado
+		const auth = await authenticateRequest(request, env);
+		if (!auth.ok) return auth.response;
+
+		// Tenant da requisição: rota ou cliente (um cliente preso a um tenant não acessa os outros)
+		const clientTenant = auth.client.tenant ? tenants.get(auth.client.tenant) : undefined;
+		if (auth.client.tenant && !clientTenant) return json({ ok: false, error: 'FORBIDDEN', detail: 'Unknown tenant for client' }, 403);
+		if (routeTenant && clientTenant && routeTenant.id !== clientTenant.id) {
+			return json({ ok: false, error: 'FORBIDDEN', detail: 'Client not allowed for this tenant' }, 403);
+		}
+		const tenantEnv = applyTenant(env, routeTenant ?? clientTenant ?? tenants.get(DEFAULT_TENANT_ID)!);
+
+		// Onboarding (pesquisa inicial)
+		if (pathname === '/onboarding/start' || pathname === '/onboarding/answer') {
+			if (!tenantEnv.SUPABASE_URL || !tenantEnv.SUPABASE_ANON_KEY) return json({ ok: false, error: 'Missing SUPABASE_URL or SUPABASE_ANON_KEY' }, 500);
+			let body: any = {};
+			try {
+				body = scopeTenantIds(tenantEnv, await request.json());
+			} catch {
+				return json({ ok: false, error: 'Invalid JSON body' }, 400);
+			}
+			try {
+				return pathname === '/onboarding/start' ? await handleOnboardingStart(tenantEnv, body) : await handleOnboardingAnswer(tenantEnv, body);
+			} catch (e: any) {
+				return json({ ok: false, error: 'ONBOARDING_ERROR', detail: e?.message || String(e) }, 500);
+			}
+		}
+
+		// Agenda de treinos
+		if (pathname === '/schedule/set') {
+			if (!tenantEnv.SUPABASE_URL || !tenantEnv.SUPABASE_ANON_KEY) return json({ ok: false, error: 'Missing SUPABASE_URL or SUPABASE_ANON_KEY' }, 500);
+			let body: any = {};
+			try {
+				body = scopeTenantIds(tenantEnv, await request.json());
+			} catch {
+				return json({ ok: false, error: 'Invalid JSON body' }, 400);
+			}
+			try {
+				return await handleScheduleSet(tenantEnv, body);
+			} catch (e: any) {
+				return json({ ok: false, error: 'SCHEDULE_ERROR', detail: e?.message || String(e) }, 500);
+			}
+		}
+
+		// Atividade: acesso ao app Weburn (alimenta a checagem semanal de follow-up)
+		if (pathname === '/activity/app-access') {
+			let body: any = {};
+			try {
+				body = scopeTenantIds(tenantEnv, await request.json());
+			} catch {
+				return json({ ok: false, error: 'Invalid JSON body' }, 400);
+			}
+			return handleAppAccess(tenantEnv, body);
+		}
+
+		// Relatório de envios dentro/fora da janela de 24h do WhatsApp
+		if (pathname === '/reports/whatsapp-window') {
+			if (!tenantEnv.SUPABASE_URL || !tenantEnv.SUPABASE_ANON_KEY) return json({ ok: false, error: 'Missing SUPABASE_URL or SUPABASE_ANON_KEY' }, 500);
+			let body: any = {};
+			try {
+				body = await request.json();
+			} catch {
+				return json({ ok: false, error: 'Invalid JSON body' }, 400);
+			}
+			return handleWindowReport(tenantEnv, body);
+		}
+
+		// Base de conhecimento: ingestão (texto ou upload)
+		if (pathname === '/knowledge/ingest') {
+			if (!tenantEnv.OPENAI_API_KEY) return json({ ok: false, error: 'Missing OPENAI_API_KEY' }, 500);
+			try {
+				return await handleKnowledgeIngest(request, tenantEnv, new OpenAI({ apiKey: tenantEnv.OPENAI_API_KEY }));
+			} catch (e: any) {
+				return json({ ok: false, error: 'KNOWLEDGE_INGEST_ERROR', detail: e?.message || String(e) }, 500);
+			}
+		}
+
 		// Multimodal endpoints
 		if (pathname === '/multimodal/image' || pathname === '/multimodal/audio' || pathname === '/multimodal/doc') {
-			if (!env.OPENAI_API_KEY) return json({ ok: false, error: 'Missing OPENAI_API_KEY' }, 500);
+			if (!tenantEnv.OPENAI_API_KEY) return json({ ok: false, error: 'Missing OPENAI_API_KEY' }, 500);
 			let body: any = {};
 			try {
-				body = await request.json();
+				body = scopeTenantIds(tenantEnv, await request.json());
 			} catch {
 				return json({ ok: false, error: 'Invalid JSON body' }, 400);
 			}
-			const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
 			try {
 				let resp: Response;
-				if (pathname === '/multimodal/image') resp = await handleImageAnalysis(openai, body);
-				else if (pathname === '/multimodal/audio') resp = await handleAudioTranscription(openai, body);
-				else resp = await handleDocUnderstanding(openai, body);
+				if (pathname === '/multimodal/image') resp = await handleImageAnalysis(tenantEnv, body);
+				else if (pathname === '/multimodal/audio') resp = await handleAudioTranscription(tenantEnv, body);
+				else resp = await handleDocUnderstanding(tenantEnv, body);
 
 				// Persistir no histórico quando houver conversationId e save !== false
 				const shouldSave = body?.save !== false && typeof body?.conversationId === 'string' && body.conversationId.length > 0;
+				if (typeof body?.conversationId === 'string' && body.conversationId.length > 0) {
+					await touchUserActivity(tenantEnv, body.conversationId, { last_seen_at: new Date().toISOString() });
+				}
 				if (shouldSave) {
-					const data = await resp.clone().json().catch(() => null as any);
+					const data: any = await resp.clone().json().catch(() => null);
 					if (data?.ok) {
 						const entries: { role: 'user' | 'assistant'; content: string }[] = [];
 						if (pathname === '/multimodal/audio') {
@@ -371,12 +5107,13 @@ export default {
 							const analysis = String((data as any).result || (data as any).text || '').trim();
 							if (analysis) entries.push({ role: 'assistant', content: analysis });
 						} else if (pathname === '/multimodal/doc') {
-							const userNote = body?.prompt ? `[documento] ${String(body.prompt).slice(0, 256)}` : '[documento]';
+							const question = body?.question || body?.prompt;
+							const userNote = question ? `[documento] ${String(question).slice(0, 256)}` : '[documento]';
 							entries.push({ role: 'user', content: userNote });
 							const summary = String((data as any).result || '').trim();
 							if (summary) entries.push({ role: 'assistant', content: summary });
 						}
-						await saveConversationEntries(env, body.conversationId, entries);
+						await saveConversationEntries(tenantEnv, body.conversationId, entries);
 					}
 				}
 				return resp;
@@ -385,382 +5122,101 @@ export default {
 			}
 		}
 
-		// Inicializar clientes
-		// const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
-		// const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-
-		// Função auxiliar genérica para executar ferramentas no n8n (rota /tool/<name>)
-		const executeTool = async (toolName: string, args: any): Promise<string> => {
-			try {
-				console.log(`Executando ferramenta ${toolName}:`, args);
-
-				const base = trimTrailingSlash(env.N8N_WEBHOOK_URL);
-				const response = await fetch(`${base}/tool/${toolName}`, {
-					method: 'POST',
-					headers: {
-						'content-type': 'application/json',
-						// usar lowercase conforme If do n8n
-						'x-n8n-api-key': env.N8N_API_KEY,
-					},
-					body: JSON.stringify(args),
-				});
-
-				if (!response.ok) {
-					const errorText = await response.text();
-					console.error(`Erro na ferramenta ${toolName}:`, response.status, errorText);
-					return `Erro na ferramenta ${toolName}: ${response.statusText}`;
-				}
-
-				const result = await response.json();
-				console.log(`Resultado da ferramenta ${toolName}:`, result);
-				return JSON.stringify(result);
-			} catch (error) {
-				console.error(`Erro ao executar ${toolName}:`, error);
-				return `Erro interno na ferramenta: ${
-					error instanceof Error ? error.message : 'Erro desconhecido'
-				}`;
-			}
-		};
-
 		// --- Lógica Principal do Worker ---
 		try {
-			// Validar variáveis obrigatórias e inicializar clientes
-			if (!env.SUPABASE_URL || !env.SUPABASE_ANON_KEY || !env.OPENAI_API_KEY) {
+			// Validar variáveis obrigatórias
+			if (!tenantEnv.SUPABASE_URL || !tenantEnv.SUPABASE_ANON_KEY || !tenantEnv.OPENAI_API_KEY) {
 				return new Response(
 					JSON.stringify({
 						success: false,
-						error: 'Missing required env vars: SUPABASE_URL, SUPABASE_ANON_KEY, OPENAI_API_KEY',
+						error: 'Missing required tenantEnv vars: SUPABASE_URL, SUPABASE_ANON_KEY, OPENAI_API_KEY',
 					}),
 					{ status: 500, headers: { 'content-type': 'application/json' } }
 				);
 			}
-			const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
-			const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
 
-			const { conversationId, newMessage } = await request.json<{
+			const { conversationId, newMessage = '', messageId, deliverTo, attachments } = await request.json<{
 				conversationId: string;
-				newMessage: string;
+				newMessage?: string;
+				// Opcional: id da mensagem no provedor (wamid) para deduplicar retries
+				messageId?: string;
+				// Opcional: telefone para o Worker entregar `mensagens` via send-whatsapp, com pausas de digitação
+				deliverTo?: string;
+				// Opcional: imagens, áudios e documentos (url ou base64) processados dentro do turno
+				attachments?: TurnAttachment[];
 			}>();
-			if (!conversationId || !newMessage) {
-				return new Response('Os campos "conversationId" e "newMessage" são obrigatórios.', {
+			if (!conversationId || (!newMessage && !attachments?.length)) {
+				return new Response('Os campos "conversationId" e "newMessage" (ou "attachments") são obrigatórios.', {
 					status: 400,
 				});
 			}
+			const attachmentsError = validateAttachments(attachments);
+			if (attachmentsError) return new Response(attachmentsError, { status: 400 });
 
-			// 1. Salvar a nova mensagem do usuário no histórico
-			const { error: insertError } = await supabase.from('conversation_history').insert([
-				{ conversation_id: conversationId, role: 'user', content: newMessage },
-			]);
-			if (insertError) throw new Error(`Erro ao salvar mensagem do usuário: ${insertError.message}`);
-
-			// 2. Buscar o histórico recente da conversa
-			const {
-				data: history,
-				error: rpcError,
-			} = (await supabase.rpc('get_conversation_history', {
-				p_conversation_id: conversationId,
-				p_limit: 20,
-			})) as { data: ConversationMessage[] | null; error: any };
-			if (rpcError) throw new Error(`Erro ao buscar histórico: ${rpcError.message}`);
-
-			console.log('Histórico recuperado:', (history || []).length, 'mensagens');
-
-			// 3. Preparar mensagens para a OpenAI
-			const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-				{
-					role: 'system',
-					content: `Você é o Perso, agente Weburn (fitness/nutri) no WhatsApp.
-
-Estilo:
-- Amigável, motivacional e direto; respostas curtas e úteis.
-- Não repita mensagens já enviadas pela Meta; use o histórico como contexto.
-- Normalize entradas como 1/2/3 ou a/b/c para os valores canônicos.
-
-Ferramentas (quando usar):
-- buscar_programas_weburn: sugerir programas conforme nível/modalidade/equipamentos.
-- send_whatsapp_text: confirmações/avisos curtos.
-- send_whatsapp_buttons: até 3 opções curtas.
-- send_whatsapp_list: listas maiores ou categorizadas.
-
-Regras:
-- Preferir no máximo 1 ferramenta por resposta; em erro, responda em texto com opções numeradas.`,
-				},
-			];
-
-			// Adicionar histórico de mensagens
-			if (history && history.length > 0) {
-				for (const msg of history) {
-					if (msg.role === 'user' || msg.role === 'assistant') {
-						messages.push({
-							role: msg.role,
-							content: msg.content,
-						});
-					}
-				}
+			// Modo streaming (canal web): deltas, eventos de tools e metadata final via SSE
+			if ((request.headers.get('accept') || '').includes('text/event-stream')) {
+				return streamAgentTurn(tenantEnv, ctx, {
+					conversationId: scopeTenantId(tenantEnv, conversationId),
+					newMessage,
+					messageId,
+					userPhone: deliverTo,
+					attachments,
+				});
 			}
 
-			// 4. Definir ferramentas disponíveis (OpenAI)
-			const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
-				{
-					type: 'function',
-					function: {
-						name: 'buscar_programas_weburn',
-						description:
-							'Busca programas de treino na plataforma Weburn com base no nível, modalidade e disponibilidade de equipamentos.',
-						parameters: {
-							type: 'object',
-							properties: {
-								nivel: {
-									type: 'string',
-									description: 'Nível do usuário (Iniciante, Intermediário, Avançado)',
-								},
-								modalidade: {
-									type: 'string',
-									description: 'Modalidade de treino (ex.: HIIT, Yoga, Musculação, etc.)',
-								},
-								possui_equipamentos: {
-									type: 'boolean',
-									description: 'Se o usuário possui equipamentos em casa',
-								},
-							},
-							required: ['nivel', 'modalidade', 'possui_equipamentos'],
-							additionalProperties: false,
-						},
-					},
-				},
-				// compat legada (modelo antigo pode chamar isso)
-				{
-					type: 'function',
-					function: {
-						name: 'send_whatsapp',
-						description: 'LEGADO: envia uma mensagem de texto simples via WhatsApp.',
-						parameters: {
-							type: 'object',
-							properties: {
-								to: { type: 'string', description: 'Telefone E.164: +55...' },
-								text: { type: 'string', description: 'Mensagem curta (<= 1024 chars)' },
-								reply_to: { type: 'string', description: 'Opcional: message_id para reply' },
-							},
-							required: ['to', 'text'],
-							additionalProperties: false,
-						},
-					},
-				},
-				{
-					type: 'function',
-					function: {
-						name: 'send_whatsapp_text',
-						description: 'Envia mensagem de texto simples pelo WhatsApp.',
-						parameters: {
-							type: 'object',
-							properties: {
-								to: { type: 'string', description: 'Telefone E.164: +55...' },
-								text: { type: 'string', description: 'Mensagem curta (<= 1024 chars)' },
-								reply_to: { type: 'string', description: 'Opcional: message_id para reply' },
-							},
-							required: ['to', 'text'],
-							additionalProperties: false,
-						},
-					},
-				},
-				{
-					type: 'function',
-					function: {
-						name: 'send_whatsapp_buttons',
-						description: 'Envia mensagem interativa com até 3 botões (reply).',
-						parameters: {
-							type: 'object',
-							properties: {
-								to: { type: 'string' },
-								body: { type: 'string' },
-								buttons: {
-									type: 'array',
-									minItems: 1,
-									maxItems: 3,
-									items: {
-										type: 'object',
-										properties: {
-											id: { type: 'string' },
-											text: { type: 'string', description: 'Rótulo curto (~20 chars)' },
-										},
-										required: ['id', 'text'],
-										additionalProperties: false,
-									},
-								},
-								header: { type: 'string' },
-								footer: { type: 'string' },
-							},
-							required: ['to', 'body', 'buttons'],
-							additionalProperties: false,
-						},
-					},
-				},
-				{
-					type: 'function',
-					function: {
-						name: 'send_whatsapp_list',
-						description: 'Envia lista interativa (seções/linhas).',
-						parameters: {
-							type: 'object',
-							properties: {
-								to: { type: 'string' },
-								body: { type: 'string' },
-								header: { type: 'string' },
-								footer: { type: 'string' },
-								button: { type: 'string', description: 'Texto do botão principal' },
-								sections: {
-									type: 'array',
-									minItems: 1,
-									maxItems: 10,
-									items: {
-										type: 'object',
-										properties: {
-											title: { type: 'string' },
-											rows: {
-												type: 'array',
-												minItems: 1,
-												maxItems: 10,
-												items: {
-													type: 'object',
-													properties: {
-														id: { type: 'string' },
-														title: { type: 'string' },
-														description: { type: 'string' },
-													},
-													required: ['id', 'title'],
-													additionalProperties: false,
-												},
-											},
-										},
-										required: ['title', 'rows'],
-										additionalProperties: false,
-									},
-								},
-							},
-							required: ['to', 'body', 'button', 'sections'],
-							additionalProperties: false,
-						},
-					},
-				},
-			];
-
-			// 5. Chamar a API da OpenAI
-			let agentResponse = '';
-			let toolCallsExecuted = 0;
-
-			try {
-				const completion = await openai.chat.completions.create({
-					model: 'gpt-4o-mini',
-					messages,
-					tools,
-					tool_choice: 'auto',
-					temperature: 0.7,
-					max_tokens: 1000,
+			const outcome = await runInboundTurn(
+				tenantEnv,
+				{ conversationId: scopeTenantId(tenantEnv, conversationId), newMessage, messageId, userPhone: deliverTo, attachments },
+				{ defer: (work) => ctx.waitUntil(work) }
+			);
+			if (outcome.status !== 'answered') {
+				return new Response(JSON.stringify(skippedTurnBody(conversationId, outcome.status, messageId)), {
+					headers: { 'Content-Type': 'application/json' },
 				});
-
-				const assistantMessage = completion.choices[0].message;
-
-				// Verificar se há tool calls para executar
-				if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-					console.log('Executando tool calls:', assistantMessage.tool_calls.length);
-
-					// Adicionar a mensagem do assistente com tool calls
-					messages.push(assistantMessage);
-
-					// Executar cada tool call
-					for (const toolCall of assistantMessage.tool_calls) {
-						const functionName = toolCall.function.name;
-						const functionArgs = JSON.parse(toolCall.function.arguments || '{}');
-
-						console.log(`Executando função: ${functionName}`, functionArgs);
-
-						let toolResult = '';
-
-						if (functionName === 'buscar_programas_weburn') {
-							const r = await buscarProgramasWeburn(env, functionArgs, crypto.randomUUID());
-							toolResult = JSON.stringify(r);
-						} else if (functionName === 'send_whatsapp' || functionName === 'send_whatsapp_text') {
-							// legado + nova: converte para webhook único (message_type=text)
-							const r = await tool_send_whatsapp_text(env, functionArgs, crypto.randomUUID());
-							toolResult = JSON.stringify(r);
-						} else if (functionName === 'send_whatsapp_buttons') {
-							const r = await tool_send_whatsapp_buttons(env, functionArgs, crypto.randomUUID());
-							toolResult = JSON.stringify(r);
-						} else if (functionName === 'send_whatsapp_list') {
-							const r = await tool_send_whatsapp_list(env, functionArgs, crypto.randomUUID());
-							toolResult = JSON.stringify(r);
-						} else {
-							toolResult = `Tool não implementada: ${functionName}`;
-						}
-
-						// Adicionar resultado da ferramenta
-						messages.push({
-							role: 'tool',
-							tool_call_id: toolCall.id,
-							content: toolResult,
-						});
-
-						toolCallsExecuted++;
-					}
-
-					// Fazer nova chamada para obter a resposta final
-					const finalCompletion = await openai.chat.completions.create({
-						model: 'gpt-4o-mini',
-						messages,
-						temperature: 0.7,
-						max_tokens: 1000,
-					});
-
-					agentResponse =
-						finalCompletion.choices[0].message.content ||
-						'Desculpe, não consegui gerar uma resposta.';
-				} else {
-					// Resposta direta sem tool calls
-					agentResponse = assistantMessage.content || 'Desculpe, não consegui gerar uma resposta.';
-				}
-
-				console.log('Resposta do agente gerada:', agentResponse);
-				console.log('Tool calls executados:', toolCallsExecuted);
-			} catch (openaiError) {
-				console.error('Erro na API da OpenAI:', openaiError);
-				agentResponse = 'Desculpe, ocorreu um erro interno. Tente novamente em alguns instantes.';
 			}
+			const { turn } = outcome;
 
-			// 6. Salvar a resposta do assistente no histórico
-			const { error: assistantInsertError } = await supabase.from('conversation_history').insert([
-				{
-					conversation_id: conversationId,
-					role: 'assistant',
-					content: agentResponse,
-				},
-			]);
+			const body = agentTurnBody(tenantEnv, conversationId, turn);
 
-			if (assistantInsertError) {
-				console.error('Erro ao salvar resposta do assistente:', assistantInsertError);
-				// Não falha a requisição, apenas loga o erro
+			// 6.2 Entrega opcional pelo próprio Worker (em background: as pausas não seguram a resposta)
+			if (deliverTo && body.mensagens.length > 0) {
+				ctx.waitUntil(
+					sendWhatsAppMessages(tenantEnv, deliverTo, body.mensagens, crypto.randomUUID(), {
+						idempotencyPrefix: `reply:${messageId || crypto.randomUUID()}`,
+						replyTo: messageId,
+					}).then((sent) => {
+						if (sent.error) console.error('Falha ao entregar mensagens:', sent.error);
+					})
+				);
 			}
 
-			console.log('Resposta do agente gerada com sucesso:', agentResponse);
-
 			// 7. Retornar a resposta final
-			return new Response(
-				JSON.stringify({
-					success: true,
-					conversationId,
-					response: agentResponse,
-					metadata: {
-						messagesInHistory: (history || []).length,
-						toolCallsExecuted: toolCallsExecuted,
-						timestamp: new Date().toISOString(),
-					},
-				}),
-				{
-					headers: { 'Content-Type': 'application/json' },
-				}
-			);
+			return new Response(JSON.stringify(body), {
+				headers: { 'Content-Type': 'application/json' },
+			});
 		} catch (e: any) {
 			console.error('Erro no Worker:', e);
 			return new Response(`Erro interno no agente: ${e.message}`, { status: 500 });
 		}
 	},
+
+	// Cron Trigger (ver [triggers] no wrangler.toml)
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		const now = new Date(controller.scheduledTime);
+		ctx.waitUntil(
+			Promise.all([
+				purgeExpiredNonces(env, now),
+				...cronTenantEnvs(env).flatMap((tenantEnv) => [
+					runTrainingReminders(tenantEnv, now),
+					runFollowUps(tenantEnv, now),
+					runWeeklyProgress(tenantEnv, now),
+				]),
+			])
+		);
+	},
+
+	// Consumidor da OUTBOUND_QUEUE (ver [[queues.consumers]] no wrangler.toml)
+	async queue(batch: MessageBatch<OutboundMessage>, env: Env): Promise<void> {
+		await consumeOutboundQueue(batch, env);
+	},
 };
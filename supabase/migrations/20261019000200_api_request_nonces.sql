@@ -0,0 +1,8 @@
+-- Assinaturas HMAC já aceitas: o primary key bloqueia replays em qualquer isolate do Worker
+create table if not exists public.api_request_nonces (
+	signature text primary key,
+	expires_at timestamptz not null
+);
+
+-- Limpeza no cron (delete where expires_at < now())
+create index if not exists api_request_nonces_expires_idx on public.api_request_nonces (expires_at);
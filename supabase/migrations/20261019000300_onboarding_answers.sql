@@ -0,0 +1,13 @@
+-- Pesquisa inicial do onboarding: uma linha por usuário com o estado da pesquisa
+create table if not exists public.onboarding_answers (
+	user_id text primary key,
+	phone text,
+	order_id text,
+	status text not null default 'in_progress' check (status in ('in_progress', 'completed')),
+	current_question text,
+	goal text,
+	location text,
+	training_time text,
+	created_at timestamptz not null default now(),
+	completed_at timestamptz
+);
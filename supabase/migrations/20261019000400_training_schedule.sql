@@ -0,0 +1,24 @@
+-- Agenda de treinos e lembretes enviados pelo cron
+create table if not exists public.training_schedule (
+	user_id text primary key,
+	days text[] not null default '{}',
+	timezone text not null default 'America/Sao_Paulo',
+	phone text,
+	paused boolean not null default false,
+	created_at timestamptz not null default now(),
+	updated_at timestamptz not null default now()
+);
+
+create index if not exists training_schedule_active_idx on public.training_schedule (user_id) where not paused;
+
+-- Um lembrete por usuário e dia: o insert do cron é a marca que impede reenvio
+create table if not exists public.training_reminders (
+	user_id text not null,
+	reminder_date date not null,
+	status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+	sent_at timestamptz,
+	error text,
+	created_at timestamptz not null default now()
+);
+
+create unique index if not exists training_reminders_user_date_key on public.training_reminders (user_id, reminder_date);
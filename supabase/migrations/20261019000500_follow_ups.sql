@@ -0,0 +1,18 @@
+-- Atividade por usuário (base dos follow-ups) e follow-ups enviados
+create table if not exists public.user_activity (
+	user_id text primary key,
+	phone text,
+	last_seen_at timestamptz,
+	last_app_access_at timestamptz
+);
+
+create table if not exists public.follow_ups (
+	id bigint generated always as identity primary key,
+	user_id text not null,
+	kind text not null check (kind in ('inactivity', 'app_access')),
+	template_id text not null,
+	status text not null check (status in ('sent', 'failed')),
+	sent_at timestamptz not null default now()
+);
+
+create index if not exists follow_ups_user_sent_idx on public.follow_ups (user_id, sent_at desc);
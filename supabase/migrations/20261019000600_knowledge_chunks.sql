@@ -0,0 +1,35 @@
+-- Base de conhecimento: trechos com embedding (text-embedding-3-small, 1536 dimensões)
+create extension if not exists vector;
+
+create table if not exists public.knowledge_chunks (
+	id text primary key,
+	document_id text not null,
+	title text not null,
+	source text,
+	chunk_index integer not null,
+	content text not null,
+	embedding vector(1536) not null,
+	created_at timestamptz not null default now()
+);
+
+create index if not exists knowledge_chunks_document_idx on public.knowledge_chunks (document_id);
+create index if not exists knowledge_chunks_embedding_idx on public.knowledge_chunks using hnsw (embedding vector_cosine_ops);
+
+-- Busca por similaridade de cosseno usada pela tool consultar_base_conhecimento
+create or replace function public.match_knowledge_chunks(query_embedding vector(1536), match_count integer)
+returns table (
+	id text,
+	document_id text,
+	title text,
+	source text,
+	chunk_index integer,
+	content text,
+	similarity double precision
+)
+language sql stable
+as $$
+	select c.id, c.document_id, c.title, c.source, c.chunk_index, c.content, 1 - (c.embedding <=> query_embedding) as similarity
+	from public.knowledge_chunks c
+	order by c.embedding <=> query_embedding
+	limit match_count;
+$$;
@@ -0,0 +1,12 @@
+-- Envios WhatsApp descartados pela fila perso-outbound (erro permanente ou retries esgotados)
+create table if not exists public.outbound_failures (
+	id bigint generated always as identity primary key,
+	idempotency_key text not null,
+	trace_id text,
+	payload jsonb,
+	error jsonb,
+	attempts integer not null default 1,
+	failed_at timestamptz not null default now()
+);
+
+create index if not exists outbound_failures_key_idx on public.outbound_failures (idempotency_key);
@@ -0,0 +1,8 @@
+-- Ids de mensagens recebidas (WhatsApp/n8n): o unique em message_id decide a corrida entre retries
+create table if not exists public.inbound_messages (
+	message_id text primary key,
+	conversation_id text not null,
+	received_at timestamptz not null default now()
+);
+
+create index if not exists inbound_messages_received_idx on public.inbound_messages (received_at);
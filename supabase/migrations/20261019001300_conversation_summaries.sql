@@ -0,0 +1,10 @@
+-- Resumo contínuo das mensagens que saíram do orçamento de contexto
+create table if not exists public.conversation_summaries (
+	conversation_id text primary key,
+	summary text not null,
+	summarized_until timestamptz not null,
+	updated_at timestamptz not null default now()
+);
+
+-- Histórico lido da mensagem mais nova para a mais antiga a cada turno
+create index if not exists conversation_history_conversation_created_idx on public.conversation_history (conversation_id, created_at desc);
@@ -0,0 +1,6 @@
+-- Memória de longo prazo do usuário (perfil extraído após cada turno)
+create table if not exists public.user_profiles (
+	user_id text primary key,
+	profile jsonb not null default '{}'::jsonb,
+	updated_at timestamptz not null default now()
+);
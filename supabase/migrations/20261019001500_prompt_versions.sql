@@ -0,0 +1,21 @@
+-- Persona editável sem deploy: uma versão 'active' e, opcionalmente, uma 'candidate' em teste
+create table if not exists public.prompt_versions (
+	version text primary key,
+	status text not null default 'candidate' check (status in ('active', 'candidate', 'retired')),
+	system_prompt text not null,
+	tool_descriptions jsonb,
+	traffic_percent integer check (traffic_percent between 0 and 100),
+	created_at timestamptz not null default now()
+);
+
+create unique index if not exists prompt_versions_one_active_key on public.prompt_versions (status) where status = 'active';
+
+-- Versão fixada por conversa no primeiro turno
+create table if not exists public.conversation_prompt_versions (
+	conversation_id text primary key,
+	version text not null references public.prompt_versions (version),
+	assigned_at timestamptz not null default now()
+);
+
+-- Versão do prompt que gerou cada resposta do assistente
+alter table public.conversation_history add column if not exists prompt_version text;
@@ -0,0 +1,38 @@
+-- Tenants: prompts e base de conhecimento separados por tenant ('weburn' = tenant padrão)
+alter table public.prompt_versions add column if not exists tenant_id text not null default 'weburn';
+alter table public.conversation_prompt_versions add column if not exists tenant_id text not null default 'weburn';
+
+-- A versão é única dentro do tenant: dois tenants podem ter cada um a sua "v1"
+alter table public.conversation_prompt_versions drop constraint if exists conversation_prompt_versions_version_fkey;
+alter table public.prompt_versions drop constraint if exists prompt_versions_pkey;
+alter table public.prompt_versions add primary key (tenant_id, version);
+alter table public.conversation_prompt_versions
+	add constraint conversation_prompt_versions_version_fkey foreign key (tenant_id, version) references public.prompt_versions (tenant_id, version);
+
+drop index if exists public.prompt_versions_one_active_key;
+create unique index if not exists prompt_versions_one_active_key on public.prompt_versions (tenant_id) where status = 'active';
+
+alter table public.knowledge_chunks add column if not exists tenant_id text not null default 'weburn';
+
+create index if not exists knowledge_chunks_tenant_idx on public.knowledge_chunks (tenant_id);
+
+drop function if exists public.match_knowledge_chunks(vector, integer);
+
+create or replace function public.match_knowledge_chunks(query_embedding vector(1536), match_count integer, filter_tenant_id text)
+returns table (
+	id text,
+	document_id text,
+	title text,
+	source text,
+	chunk_index integer,
+	content text,
+	similarity double precision
+)
+language sql stable
+as $$
+	select c.id, c.document_id, c.title, c.source, c.chunk_index, c.content, 1 - (c.embedding <=> query_embedding) as similarity
+	from public.knowledge_chunks c
+	where c.tenant_id = filter_tenant_id
+	order by c.embedding <=> query_embedding
+	limit match_count;
+$$;
@@ -0,0 +1,18 @@
+-- Janela de 24h: última mensagem recebida por contato (telefone E.164, com prefixo do tenant)
+create table if not exists public.whatsapp_contacts (
+	contact_id text primary key,
+	last_inbound_at timestamptz not null
+);
+
+-- Um registro por envio, base de /reports/whatsapp-window
+create table if not exists public.whatsapp_window_events (
+	id bigint generated always as identity primary key,
+	contact_id text not null,
+	tenant_id text not null default 'weburn',
+	message_type text not null,
+	"window" text not null check ("window" in ('open', 'closed', 'unknown')),
+	action text not null check (action in ('sent', 'template', 'blocked')),
+	created_at timestamptz not null default now()
+);
+
+create index if not exists whatsapp_window_events_tenant_created_idx on public.whatsapp_window_events (tenant_id, created_at);
@@ -0,0 +1,11 @@
+-- Menus interativos enviados (botões/listas), para resolver o toque que volta pelo webhook
+create table if not exists public.interactive_menus (
+	menu_id text primary key,
+	contact_id text not null,
+	kind text not null check (kind in ('button', 'list')),
+	body text not null,
+	options jsonb not null default '[]'::jsonb,
+	created_at timestamptz not null default now()
+);
+
+create index if not exists interactive_menus_contact_created_idx on public.interactive_menus (contact_id, created_at desc);
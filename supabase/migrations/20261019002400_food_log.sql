@@ -0,0 +1,18 @@
+-- Diário alimentar: uma linha por refeição analisada por foto; local_date no fuso da agenda do usuário
+create table if not exists public.food_log (
+	id text primary key,
+	user_id text not null,
+	local_date date not null,
+	eaten_at timestamptz not null,
+	meal_type text not null check (meal_type in ('cafe_da_manha', 'almoco', 'lanche', 'jantar', 'ceia')),
+	foods jsonb not null default '[]'::jsonb,
+	calories numeric not null default 0,
+	protein_g numeric not null default 0,
+	carbs_g numeric not null default 0,
+	fat_g numeric not null default 0,
+	confidence numeric,
+	image_url text,
+	created_at timestamptz not null default now()
+);
+
+create index if not exists food_log_user_date_idx on public.food_log (user_id, local_date);
@@ -0,0 +1,44 @@
+-- Treinos contados na conversa: id = conversa + tool call (a mesma chamada repetida não duplica)
+create table if not exists public.workout_log (
+	id text primary key,
+	user_id text not null,
+	local_date date not null,
+	logged_at timestamptz not null default now(),
+	program text not null,
+	duration_min integer not null check (duration_min between 1 and 600),
+	effort integer check (effort between 1 and 10),
+	notes text,
+	created_at timestamptz not null default now()
+);
+
+create index if not exists workout_log_user_date_idx on public.workout_log (user_id, local_date);
+create index if not exists workout_log_date_idx on public.workout_log (local_date);
+
+-- Peso e medidas: id = usuário + dia, uma linha por dia
+create table if not exists public.body_measurements (
+	id text primary key,
+	user_id text not null,
+	local_date date not null,
+	measured_at timestamptz not null default now(),
+	weight_kg numeric,
+	waist_cm numeric,
+	hip_cm numeric,
+	chest_cm numeric,
+	arm_cm numeric,
+	thigh_cm numeric,
+	body_fat_pct numeric
+);
+
+create unique index if not exists body_measurements_user_date_key on public.body_measurements (user_id, local_date);
+
+-- Resumo semanal: o insert do cron é a marca que impede reenvio na mesma semana
+create table if not exists public.progress_summaries (
+	user_id text not null,
+	week_start date not null,
+	status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+	sent_at timestamptz,
+	error text,
+	created_at timestamptz not null default now()
+);
+
+create unique index if not exists progress_summaries_user_week_key on public.progress_summaries (user_id, week_start);
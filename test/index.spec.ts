@@ -1,32 +1,253 @@
-import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { createExecutionContext, createScheduledController, waitOnExecutionContext } from 'cloudflare:test';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import worker from '../src/index';
+import worker, { type Env } from '../src/index';
 
 // Mocks para OpenAI e Supabase
 const openaiCreateMock = vi.fn();
+// Extração de perfil (response_format perfil_usuario) tem mock próprio: não interfere nas contagens do agente
+const openaiProfileMock = vi.fn();
+// Embeddings determinísticos: bag-of-words em 64 dimensões
+const fakeEmbedding = (text: string) => {
+  const v = new Array(64).fill(0);
+  for (const w of text.toLowerCase().match(/[a-zà-ú]+/g) || []) {
+    let h = 0;
+    for (const ch of w) h = (h * 31 + ch.charCodeAt(0)) % 64;
+    v[h] += 1;
+  }
+  return v;
+};
+const openaiEmbeddingsMock = vi.fn(async ({ input }: { input: string[] }) => ({
+  data: input.map((t) => ({ embedding: fakeEmbedding(t) })),
+}));
+// Responses API e opções de cada cliente (provedores compatíveis com a OpenAI)
+const openaiResponsesMock = vi.fn();
+const openaiClientMock = vi.fn();
+const openaiTranscriptionsMock = vi.fn();
 vi.mock('openai', () => {
   return {
     default: class OpenAI {
-      chat = { completions: { create: openaiCreateMock } };
-      constructor(_: any) {}
+      chat = {
+        completions: {
+          create: (params: any, opts?: any) =>
+            params?.response_format?.json_schema?.name === 'perfil_usuario' ? openaiProfileMock(params, opts) : openaiCreateMock(params, opts),
+        },
+      };
+      embeddings = { create: openaiEmbeddingsMock };
+      responses = { create: openaiResponsesMock };
+      audio = { transcriptions: { create: openaiTranscriptionsMock } };
+      constructor(opts: any) {
+        openaiClientMock(opts);
+      }
     },
   };
 });
 
+// Supabase em memória: tabelas em `db`, query builder encadeável e "thenable"
+const db: Record<string, any[]> = {};
+const table = (name: string) => (db[name] ||= []);
+// Chaves únicas das migrations (supabase/migrations): insert duplicado devolve 23505 como o Postgres
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  api_request_nonces: [['signature']],
+  inbound_messages: [['message_id']],
+  training_reminders: [['user_id', 'reminder_date']],
+  progress_summaries: [['user_id', 'week_start']],
+  food_log: [['id']],
+};
+// Erro forçado por tabela (ex.: indisponibilidade do banco); limpo a cada teste
+const dbErrors: Record<string, { code: string; message: string }> = {};
+
+class FakeQuery {
+  private filters: ((row: any) => boolean)[] = [];
+  private op: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private payload: any;
+  private conflict: string[] = [];
+  private max?: number;
+  private sort?: { col: string; asc: boolean };
+  private single = false;
+
+  constructor(private name: string) {}
+
+  select() {
+    return this;
+  }
+  insert(rows: any) {
+    this.op = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+  upsert(rows: any, opts?: { onConflict?: string }) {
+    this.op = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.conflict = (opts?.onConflict || 'id').split(',').map((c) => c.trim());
+    return this;
+  }
+  update(patch: any) {
+    this.op = 'update';
+    this.payload = patch;
+    return this;
+  }
+  delete() {
+    this.op = 'delete';
+    return this;
+  }
+  eq(col: string, v: any) {
+    this.filters.push((r) => r[col] === v);
+    return this;
+  }
+  neq(col: string, v: any) {
+    this.filters.push((r) => r[col] !== v);
+    return this;
+  }
+  in(col: string, vs: any[]) {
+    this.filters.push((r) => vs.includes(r[col]));
+    return this;
+  }
+  is(col: string, v: any) {
+    this.filters.push((r) => (r[col] ?? null) === v);
+    return this;
+  }
+  gt(col: string, v: any) {
+    this.filters.push((r) => r[col] > v);
+    return this;
+  }
+  gte(col: string, v: any) {
+    this.filters.push((r) => r[col] >= v);
+    return this;
+  }
+  lt(col: string, v: any) {
+    this.filters.push((r) => r[col] < v);
+    return this;
+  }
+  lte(col: string, v: any) {
+    this.filters.push((r) => r[col] <= v);
+    return this;
+  }
+  order(col: string, opts?: { ascending?: boolean }) {
+    this.sort = { col, asc: opts?.ascending !== false };
+    return this;
+  }
+  limit(n: number) {
+    this.max = n;
+    return this;
+  }
+  maybeSingle() {
+    this.single = true;
+    return this;
+  }
+  then(resolve: (v: any) => any, reject?: (e: any) => any) {
+    return Promise.resolve(this.run()).then(resolve, reject);
+  }
+
+  private run() {
+    const base = this.name.slice(this.name.indexOf('/') + 1);
+    if (dbErrors[base]) return { data: null, error: dbErrors[base] };
+    const rows = table(this.name);
+    const match = (r: any) => this.filters.every((f) => f(r));
+    let data: any[] = [];
+    if (this.op === 'insert') {
+      const duplicate = (UNIQUE_KEYS[base] || []).some((cols) =>
+        this.payload.some((r: any) => rows.some((x) => cols.every((c) => x[c] === r[c])))
+      );
+      if (duplicate) return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+      data = this.payload.map((r: any) => ({ created_at: new Date().toISOString(), ...r }));
+      rows.push(...data);
+    } else if (this.op === 'upsert') {
+      for (const r of this.payload) {
+        const existing = rows.find((x) => this.conflict.every((c) => x[c] === r[c]));
+        if (existing) Object.assign(existing, r);
+        else rows.push({ created_at: new Date().toISOString(), ...r });
+        data.push(existing ?? r);
+      }
+    } else if (this.op === 'update') {
+      data = rows.filter(match);
+      data.forEach((r) => Object.assign(r, this.payload));
+    } else if (this.op === 'delete') {
+      data = rows.filter(match);
+      db[this.name] = rows.filter((r) => !match(r));
+    } else {
+      data = rows.filter(match);
+      if (this.sort) {
+        const { col, asc } = this.sort;
+        data = [...data].sort((a, b) => (a[col] > b[col] ? 1 : a[col] < b[col] ? -1 : 0) * (asc ? 1 : -1));
+      }
+      if (this.max !== undefined) data = data.slice(0, this.max);
+    }
+    if (this.single) return { data: data[0] ?? null, error: null };
+    return { data, error: null };
+  }
+}
+
 vi.mock('@supabase/supabase-js', () => {
   return {
-    createClient: () => ({
-      from: () => ({ insert: async () => ({ error: null }) }),
+    // Projetos Supabase próprios de tenants ficam em tabelas "<host>/<tabela>"
+    createClient: (url: string) => ({
+      from: (name: string) => new FakeQuery(url === 'https://supabase.example' ? name : `${new URL(url).host}/${name}`),
       rpc: async () => ({ data: [], error: null }),
     }),
   };
 });
 
+// Cliente autenticado: keyHash = sha256('test-key')
+const API_CLIENTS = JSON.stringify([
+  { id: 'test', keyHash: '62af8704764faf8ea82fc61ce9c4c3908b6cb97d463a634e9e587d7c885db0ef', hmacSecret: 'hmac-secret' },
+]);
+const AUTH = { authorization: 'Bearer test-key' };
+
+async function hmacHex(secret: string, data: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+  return [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Env completo dos testes; string vazia simula var ausente. Chaves extras cobrem apiKeyVar de provedores do MODEL_CONFIG
+const makeEnv = (overrides: Partial<Env> & Record<string, unknown> = {}): Env => ({
+  OPENAI_API_KEY: 'sk-test',
+  SUPABASE_URL: 'https://supabase.example',
+  SUPABASE_ANON_KEY: 'anon',
+  N8N_WEBHOOK_URL: 'https://n8n.example/webhook',
+  N8N_API_KEY: 'secret',
+  API_CLIENTS,
+  ...overrides,
+});
+
+type FetchHandler = (init: RequestInit | undefined, url: string) => Response | Promise<Response>;
+
+// fetch falso: a primeira rota cujo trecho aparece na URL responde; o resto recebe 404
+const fetchRouter =
+  (routes: Record<string, FetchHandler>) =>
+  async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const route = Object.keys(routes).find((part) => url.includes(part));
+    return route === undefined ? new Response('not found', { status: 404 }) : routes[route](init, url);
+  };
+
+const okJson = (body: unknown = { ok: true }) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+
+// Rota do n8n que guarda o corpo de cada envio (send-whatsapp, tools) em `sent`
+const captureN8n = (sent: any[]): FetchHandler => (init) => {
+  sent.push(JSON.parse(String(init?.body)));
+  return okJson();
+};
+
 describe('Perso worker', () => {
   let fetchSpy: ReturnType<typeof vi.spyOn>;
 
   beforeEach(() => {
+    for (const name of Object.keys(db)) delete db[name];
+    for (const name of Object.keys(dbErrors)) delete dbErrors[name];
     openaiCreateMock.mockReset();
+    openaiProfileMock.mockReset();
+    openaiResponsesMock.mockReset();
+    openaiClientMock.mockReset();
+    openaiTranscriptionsMock.mockReset();
+    openaiProfileMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: '{}' } }] });
     fetchSpy = vi.spyOn(globalThis, 'fetch');
   });
 
@@ -100,11 +321,12 @@ describe('Perso worker', () => {
       N8N_WEBHOOK_URL: 'https://n8n.example/webhook',
       N8N_API_KEY: 'secret',
       WEBURN_API_URL: 'https://example.weburn/api/programas',
+      API_CLIENTS,
     };
 
     const req = new Request('http://worker', {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...AUTH },
       body: JSON.stringify({ conversationId: 'c1', newMessage: 'Quero HIIT iniciante' }),
     });
     const ctx = createExecutionContext();
@@ -124,11 +346,12 @@ describe('Perso worker', () => {
       SUPABASE_ANON_KEY: 'anon',
       N8N_WEBHOOK_URL: 'https://n8n.example/webhook',
       N8N_API_KEY: 'secret',
+      API_CLIENTS,
     };
 
     const req = new Request('http://worker', {
       method: 'POST',
-      headers: { 'content-type': 'application/json' },
+      headers: { 'content-type': 'application/json', ...AUTH },
       body: JSON.stringify({ conversationId: 'c1', newMessage: 'ping' }),
     });
     const ctx = createExecutionContext();
@@ -139,4 +362,2404 @@ describe('Perso worker', () => {
     const body = await res.json();
     expect(body.success).toBe(false);
   });
+
+  it('responde ao hub.challenge do webhook do WhatsApp', async () => {
+    const env = makeEnv({ WHATSAPP_VERIFY_TOKEN: 'verify-me' });
+    const req = new Request(
+      'http://worker/webhooks/whatsapp?hub.mode=subscribe&hub.verify_token=verify-me&hub.challenge=42',
+      { method: 'GET' }
+    );
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(req, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('42');
+  });
+
+  it('rejeita webhook do WhatsApp com assinatura inválida', async () => {
+    const env = makeEnv({ WHATSAPP_APP_SECRET: 'app-secret' });
+    const req = new Request('http://worker/webhooks/whatsapp', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-hub-signature-256': 'sha256=deadbeef' },
+      body: JSON.stringify({ entry: [] }),
+    });
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(req, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(401);
+    expect(openaiCreateMock).not.toHaveBeenCalled();
+  });
+
+  it('processa mensagem de texto do WhatsApp e responde pelo send-whatsapp', async () => {
+    openaiCreateMock.mockResolvedValue({
+      choices: [{ message: { role: 'assistant', content: 'Bora treinar!' } }],
+    } as any);
+    const sent: any[] = [];
+    fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': captureN8n(sent) }));
+
+    const env = makeEnv({ WHATSAPP_APP_SECRET: 'app-secret' });
+    const body = JSON.stringify({
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          changes: [
+            {
+              value: {
+                messaging_product: 'whatsapp',
+                metadata: { phone_number_id: '123' },
+                contacts: [{ wa_id: '551188887777', profile: { name: 'Ana' } }],
+                messages: [{ id: 'wamid.1', from: '551188887777', timestamp: '1700000000', type: 'text', text: { body: 'oi' } }],
+              },
+            },
+          ],
+        },
+      ],
+    });
+    const hex = await hmacHex('app-secret', body);
+
+    const req = new Request('http://worker/webhooks/whatsapp', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-hub-signature-256': `sha256=${hex}` },
+      body,
+    });
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(req, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(200);
+    expect(openaiCreateMock).toHaveBeenCalledTimes(1);
+    expect(sent).toHaveLength(1);
+    // celular antigo sem o 9º dígito é normalizado como no n8n
+    expect(sent[0].to).toBe('+5511988887777');
+    expect(sent[0].payload.text).toBe('Bora treinar!');
+  });
+
+  it('baixa a mídia do WhatsApp pelo id e leva o áudio ao turno como anexo', async () => {
+    openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Bora!' } }] } as any);
+    openaiTranscriptionsMock.mockResolvedValue({ text: 'quero treinar hoje' });
+    const sent: any[] = [];
+    const authHeaders: (string | null)[] = [];
+    const withAuth = (handler: FetchHandler): FetchHandler => (init, url) => {
+      authHeaders.push(new Headers(init?.headers).get('authorization'));
+      return handler(init, url);
+    };
+    fetchSpy.mockImplementation(
+      fetchRouter({
+        'n8n.example': captureN8n(sent),
+        'graph.facebook.com/v20.0/media-1': withAuth(() => okJson({ url: 'https://lookaside.example/media-1', mime_type: 'audio/ogg; codecs=opus' })),
+        'lookaside.example': withAuth(() => new Response(Uint8Array.from('OggS\0\x02' + '\0'.repeat(20), (c) => c.charCodeAt(0)))),
+      })
+    );
+    const webhook = async (env: Env, id: string) => {
+      const body = JSON.stringify({
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  metadata: { phone_number_id: '123' },
+                  messages: [
+                    { id, from: '5511988887777', timestamp: '1700000000', type: 'audio', audio: { id: 'media-1', mime_type: 'audio/ogg', voice: true } },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      });
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker/webhooks/whatsapp', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'x-hub-signature-256': `sha256=${await hmacHex('app-secret', body)}` },
+          body,
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+    };
+
+    await webhook(makeEnv({ WHATSAPP_APP_SECRET: 'app-secret', WHATSAPP_ACCESS_TOKEN: 'wa-token' }), 'wamid.a1');
+    // sem token: segue o rótulo do n8n
+    await webhook(makeEnv({ WHATSAPP_APP_SECRET: 'app-secret' }), 'wamid.a2');
+
+    const userMessages = table('conversation_history').filter((r) => r.role === 'user').map((r) => r.content);
+    expect(userMessages).toEqual(['[áudio] quero treinar hoje', '[Áudio enviado]']);
+    expect(authHeaders).toEqual(['Bearer wa-token', 'Bearer wa-token']);
+    expect((openaiTranscriptionsMock.mock.calls[0][0].file as File).type).toBe('audio/ogg');
+    expect(sent).toHaveLength(2);
+  });
+
+  it('exige autenticação no POST raiz com erro JSON 401', async () => {
+    const env = makeEnv();
+    const req = new Request('http://worker', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ conversationId: 'c1', newMessage: 'ping' }),
+    });
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(req, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(401);
+    expect(await res.json()).toMatchObject({ ok: false, error: 'UNAUTHORIZED' });
+    expect(openaiCreateMock).not.toHaveBeenCalled();
+  });
+
+  it('retorna 403 para chave revogada', async () => {
+    const env = makeEnv({
+      API_CLIENTS: JSON.stringify([{ id: 'old', keyHash: '762c08fc17a1cc5f00d248f8b50f2f2f4d17ff2934ac31e64deacb3f5bb3f2ec', revoked: true }]),
+    });
+    const req = new Request('http://worker/multimodal/image', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', authorization: 'Bearer old-key' },
+      body: JSON.stringify({ imageUrl: 'https://img.example/a.png' }),
+    });
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(req, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ ok: false, error: 'FORBIDDEN' });
+  });
+
+  it('aceita requisição assinada com HMAC e bloqueia replay', async () => {
+    const env = makeEnv({ OPENAI_API_KEY: '' });
+    const body = JSON.stringify({ conversationId: 'c1', newMessage: 'ping' });
+    const ts = String(Math.floor(Date.now() / 1000));
+    const signature = await hmacHex('hmac-secret', `${ts}.${body}`);
+    const makeReq = () =>
+      new Request('http://worker', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-client-id': 'test', 'x-timestamp': ts, 'x-signature': signature },
+        body,
+      });
+
+    const ctx = createExecutionContext();
+    // sem envs obrigatórias: passar da autenticação leva ao 500 de configuração
+    const first = await worker.fetch(makeReq(), env, ctx);
+    const replay = await worker.fetch(makeReq(), env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(first.status).toBe(500);
+    expect(replay.status).toBe(403);
+    expect(db.api_request_nonces).toEqual([expect.objectContaining({ signature })]);
+  });
+
+  it('bloqueia replay registrado por outro isolate e limpa assinaturas vencidas no cron', async () => {
+    const env = makeEnv();
+    const body = JSON.stringify({ conversationId: 'c1', newMessage: 'ping' });
+    const ts = String(Math.floor(Date.now() / 1000));
+    const signature = await hmacHex('hmac-secret', `${ts}.${body}`);
+    // a assinatura já foi aceita em outro isolate: só o banco sabe disso
+    db.api_request_nonces = [
+      { signature, expires_at: new Date(Date.now() + 60_000).toISOString() },
+      { signature: 'vencida', expires_at: new Date(Date.now() - 60_000).toISOString() },
+    ];
+
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(
+      new Request('http://worker', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-client-id': 'test', 'x-timestamp': ts, 'x-signature': signature },
+        body,
+      }),
+      env,
+      ctx
+    );
+    await worker.scheduled(createScheduledController({ scheduledTime: Date.now(), cron: '0 * * * *' }), env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({ ok: false, error: 'FORBIDDEN', detail: 'Replayed request' });
+    expect(openaiCreateMock).not.toHaveBeenCalled();
+    expect(db.api_request_nonces.map((r) => r.signature)).toEqual([signature]);
+  });
+
+  it('mantém /health público sem expor a base do n8n', async () => {
+    const env = makeEnv();
+    const ctx = createExecutionContext();
+    const res = await worker.fetch(new Request('http://worker/health'), env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    expect(res.status).toBe(200);
+    const body: any = await res.json();
+    expect(body.n8n.configured).toBe(true);
+    expect(body.n8n.base).toBeUndefined();
+  });
+
+  describe('onboarding', () => {
+    const env = makeEnv();
+    const post = async (path: string, body: any) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request(`http://worker${path}`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify(body),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return res;
+    };
+    let sent: any[];
+
+    beforeEach(() => {
+      sent = [];
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': captureN8n(sent) }));
+    });
+
+    it('inicia a pesquisa e envia a primeira pergunta como lista', async () => {
+      const res = await post('/onboarding/start', { userId: 'u1', phone: '11999998888', orderId: 'o1' });
+
+      expect(res.status).toBe(200);
+      expect(await res.json()).toMatchObject({ ok: true, status: 'in_progress', question: 'goal' });
+      expect(db.onboarding_answers[0]).toMatchObject({ user_id: 'u1', phone: '+5511999998888', current_question: 'goal' });
+      expect(sent[0].payload.type).toBe('list');
+    });
+
+    it('normaliza respostas 1/2/3 e a/b/c e conclui a pesquisa', async () => {
+      await post('/onboarding/start', { userId: 'u1', phone: '11999998888' });
+
+      expect((await post('/onboarding/answer', { userId: 'u1', questionId: 'goal', answer: '2' })).status).toBe(200);
+      // Toque no botão chega com o id que enviamos ("<menu_id>:location:academia")
+      const tapped = sent[1].payload.action.buttons[1].reply.id;
+      expect(tapped).toMatch(/^[0-9a-f-]{36}:location:academia$/);
+      expect((await post('/onboarding/answer', { userId: 'u1', answer: tapped })).status).toBe(200);
+      const last = await post('/onboarding/answer', { userId: 'u1', answer: 'Treino há mais de um ano' });
+
+      expect(await last.json()).toMatchObject({
+        ok: true,
+        status: 'completed',
+        answers: { goal: 'ganhar_massa', location: 'academia', training_time: 'mais_1a' },
+      });
+    });
+
+    it('rejeita resposta inválida e reenvia a mesma pergunta', async () => {
+      await post('/onboarding/start', { userId: 'u1', phone: '11999998888' });
+      const res = await post('/onboarding/answer', { userId: 'u1', answer: 'talvez' });
+
+      expect(res.status).toBe(422);
+      expect(await res.json()).toMatchObject({ ok: false, error: 'INVALID_ANSWER', question: 'goal' });
+      expect(db.onboarding_answers[0].current_question).toBe('goal');
+      expect(sent).toHaveLength(2);
+    });
+
+    it('bloqueia o agente completo enquanto a pesquisa não termina', async () => {
+      await post('/onboarding/start', { userId: 'c1', phone: '11999998888' });
+      const res = await post('/', { conversationId: 'c1', newMessage: 'emagrecer' });
+
+      const body: any = await res.json();
+      expect(body.success).toBe(true);
+      expect(body.metadata.onboarding).toEqual({ status: 'in_progress', currentQuestion: 'location' });
+      expect(openaiCreateMock).not.toHaveBeenCalled();
+      // A próxima pergunta vem na resposta, depois da confirmação (nada sai antes pelo WhatsApp)
+      expect(body.response).toMatch(/^Anotado! ✅\n\n.+\n\n1\) /s);
+      expect(sent).toHaveLength(1);
+    });
+
+    it('injeta as respostas do onboarding no prompt do agente', async () => {
+      db.onboarding_answers = [
+        { user_id: 'c1', status: 'completed', current_question: null, goal: 'emagrecer', location: 'casa', training_time: 'nunca' },
+      ];
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Oi!' } }] } as any);
+      await post('/', { conversationId: 'c1', newMessage: 'oi' });
+
+      const { messages } = openaiCreateMock.mock.calls[0][0];
+      expect(messages.some((m: any) => m.role === 'system' && m.content.includes('Objetivo principal: Emagrecer'))).toBe(true);
+    });
+  });
+
+  describe('agenda de treinos', () => {
+    const env = makeEnv();
+    let sent: any[];
+
+    beforeEach(() => {
+      sent = [];
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': captureN8n(sent) }));
+    });
+
+    const runCron = async (scheduledTime: number) => {
+      const ctx = createExecutionContext();
+      await worker.scheduled(createScheduledController({ scheduledTime, cron: '0 * * * *' }), env, ctx);
+      await waitOnExecutionContext(ctx);
+    };
+
+    it('salva a agenda com dias normalizados', async () => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker/schedule/set', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ userId: 'u1', days: ['Sexta-feira', 'segunda', 'wed'], tz: 'America/Sao_Paulo', phone: '11999998888' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+
+      expect(res.status).toBe(200);
+      expect(db.training_schedule[0]).toMatchObject({ user_id: 'u1', days: ['seg', 'qua', 'sex'], paused: false });
+    });
+
+    it('envia um único lembrete no dia de treino mesmo com cron duplicado', async () => {
+      db.training_schedule = [
+        { user_id: 'u1', days: ['qua'], timezone: 'America/Sao_Paulo', phone: '+5511999998888', paused: false },
+        { user_id: 'u2', days: ['qui'], timezone: 'America/Sao_Paulo', phone: '+5511977776666', paused: false },
+      ];
+      // quarta-feira, 09:00 em São Paulo
+      const wednesday = Date.parse('2026-10-21T12:00:00Z');
+      await runCron(wednesday);
+      await runCron(wednesday + 60 * 60_000);
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('+5511999998888');
+      expect(db.training_reminders).toEqual([expect.objectContaining({ user_id: 'u1', reminder_date: '2026-10-21', status: 'sent' })]);
+    });
+
+    it('não duplica o lembrete com disparos simultâneos do cron', async () => {
+      db.training_schedule = [{ user_id: 'u1', days: ['qua'], timezone: 'America/Sao_Paulo', phone: '+5511999998888', paused: false }];
+      const wednesday = Date.parse('2026-10-21T12:00:00Z');
+      await Promise.all([runCron(wednesday), runCron(wednesday)]);
+
+      expect(sent).toHaveLength(1);
+    });
+
+    it('não envia o lembrete quando o banco falha ao marcá-lo', async () => {
+      db.training_schedule = [{ user_id: 'u1', days: ['qua'], timezone: 'America/Sao_Paulo', phone: '+5511999998888', paused: false }];
+      dbErrors.training_reminders = { code: '57P01', message: 'terminating connection' };
+      await runCron(Date.parse('2026-10-21T12:00:00Z'));
+
+      expect(sent).toHaveLength(0);
+    });
+
+    it('não gasta o lembrete do dia com contato fora da janela de 24h', async () => {
+      db.training_schedule = [{ user_id: 'u1', days: ['qua'], timezone: 'America/Sao_Paulo', phone: '+5511999998888', paused: false }];
+      table('whatsapp_contacts').push({ contact_id: '+5511999998888', last_inbound_at: new Date(Date.now() - 30 * 3600_000).toISOString() });
+      await runCron(Date.parse('2026-10-21T12:00:00Z'));
+
+      expect(sent).toHaveLength(0);
+      expect(table('training_reminders')).toHaveLength(0);
+    });
+
+    it('permite pausar os lembretes pela tool do agente', async () => {
+      db.training_schedule = [{ user_id: 'c1', days: ['qua'], timezone: 'America/Sao_Paulo', phone: '+5511999998888', paused: false }];
+      let call = 0;
+      openaiCreateMock.mockImplementation(async () => {
+        call++;
+        if (call === 1) {
+          return {
+            choices: [
+              {
+                message: {
+                  role: 'assistant',
+                  content: null,
+                  tool_calls: [
+                    { id: 't1', type: 'function', function: { name: 'gerenciar_agenda_treino', arguments: '{"acao":"pausar"}' } },
+                  ],
+                },
+              },
+            ],
+          } as any;
+        }
+        return { choices: [{ message: { role: 'assistant', content: 'Lembretes pausados.' } }] } as any;
+      });
+
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'pausa meus lembretes' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      await runCron(Date.parse('2026-10-21T12:00:00Z'));
+
+      expect(db.training_schedule[0].paused).toBe(true);
+      expect(sent).toHaveLength(0);
+    });
+  });
+
+  describe('follow-ups automáticos', () => {
+    const env = makeEnv({ FOLLOWUP_MAX_PER_USER: '2' });
+    const DAY = 24 * 60 * 60_000;
+    // 10:00 em São Paulo (dentro da janela de envio)
+    const now = Date.parse('2026-10-21T13:00:00Z');
+    let sent: any[];
+
+    beforeEach(() => {
+      sent = [];
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': captureN8n(sent) }));
+    });
+
+    const runCron = async (scheduledTime: number) => {
+      const ctx = createExecutionContext();
+      await worker.scheduled(createScheduledController({ scheduledTime, cron: '0 * * * *' }), env, ctx);
+      await waitOnExecutionContext(ctx);
+    };
+
+    it('atualiza last_seen_at a cada mensagem recebida', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Oi!' } }] } as any);
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'oi' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+
+      expect(db.user_activity[0].user_id).toBe('c1');
+      expect(Date.now() - Date.parse(db.user_activity[0].last_seen_at)).toBeLessThan(60_000);
+    });
+
+    it('envia um follow-up após 3 dias de silêncio, sem repetir no mesmo ciclo', async () => {
+      db.user_activity = [
+        {
+          user_id: 'u1',
+          phone: '+5511999998888',
+          last_seen_at: new Date(now - 4 * DAY).toISOString(),
+          last_app_access_at: new Date(now - DAY).toISOString(),
+        },
+      ];
+      await runCron(now);
+      await runCron(now + 60 * 60_000);
+
+      expect(sent).toHaveLength(1);
+      expect(db.follow_ups).toEqual([expect.objectContaining({ user_id: 'u1', kind: 'inactivity', template_id: 'inactivity_1' })]);
+    });
+
+    it('respeita o limite de follow-ups sem resposta', async () => {
+      db.user_activity = [
+        { user_id: 'u1', phone: '+5511999998888', last_seen_at: new Date(now - 30 * DAY).toISOString(), last_app_access_at: null },
+      ];
+      for (let i = 0; i < 5; i++) await runCron(now + i * 7 * DAY);
+
+      expect(sent).toHaveLength(2);
+      expect(db.follow_ups.map((f: any) => f.template_id)).toEqual(['inactivity_1', 'inactivity_2']);
+    });
+
+    it('não conta follow-ups que falharam no limite', async () => {
+      db.user_activity = [
+        { user_id: 'u1', phone: '+5511999998888', last_seen_at: new Date(now - 30 * DAY).toISOString(), last_app_access_at: null },
+      ];
+      db.follow_ups = [10, 20].map((days, i) => ({
+        id: `f${i}`,
+        user_id: 'u1',
+        kind: 'inactivity',
+        template_id: `inactivity_${i + 1}`,
+        status: 'failed',
+        sent_at: new Date(now - days * DAY).toISOString(),
+      }));
+      await runCron(now);
+
+      expect(sent).toHaveLength(1);
+      expect(db.follow_ups.filter((f: any) => f.status === 'sent')).toEqual([expect.objectContaining({ template_id: 'inactivity_1' })]);
+    });
+
+    it('tenta de novo no ciclo seguinte quando o último envio falhou', async () => {
+      db.user_activity = [
+        { user_id: 'u1', phone: '+5511999998888', last_seen_at: new Date(now - 4 * DAY).toISOString(), last_app_access_at: null },
+      ];
+      db.follow_ups = [
+        {
+          id: 'f0',
+          user_id: 'u1',
+          kind: 'inactivity',
+          template_id: 'inactivity_1',
+          status: 'failed',
+          sent_at: new Date(now - 60 * 60_000).toISOString(),
+        },
+      ];
+      await runCron(now);
+
+      expect(sent).toHaveLength(1);
+      expect(db.follow_ups.filter((f: any) => f.status === 'sent')).toEqual([
+        expect.objectContaining({ kind: 'inactivity', template_id: 'inactivity_1' }),
+      ]);
+    });
+
+    it('pula contato fora da janela de 24h sem template, sem registrar o follow-up', async () => {
+      db.user_activity = [
+        { user_id: 'u1', phone: '+5511999998888', last_seen_at: new Date(now - 4 * DAY).toISOString(), last_app_access_at: null },
+      ];
+      table('whatsapp_contacts').push({ contact_id: '+5511999998888', last_inbound_at: new Date(Date.now() - 30 * 3600_000).toISOString() });
+      await runCron(now);
+
+      expect(sent).toHaveLength(0);
+      expect(table('follow_ups')).toHaveLength(0);
+      expect(table('whatsapp_window_events')).toHaveLength(0);
+    });
+  });
+
+  describe('base de conhecimento', () => {
+    const env = makeEnv({ KNOWLEDGE_STORE: 'memory' });
+    const ingest = async (body: any) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker/knowledge/ingest', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify(body),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return res;
+    };
+
+    it('ingere texto em chunks com embeddings', async () => {
+      const text = Array.from({ length: 6 }, (_, i) => `Parágrafo ${i}: ${'proteína '.repeat(40)}`).join('\n\n');
+      const res = await ingest({ title: 'Guia de Nutrição', text });
+
+      expect(res.status).toBe(200);
+      const body: any = await res.json();
+      expect(body.ok).toBe(true);
+      expect(body.chunks).toBeGreaterThan(1);
+    });
+
+    it('ingere PDF em base64 pelos extratores e recusa base64 inválido com 400', async () => {
+      const content = 'BT (Hidratacao: beba agua antes do treino) Tj ET';
+      const pdf = [
+        '%PDF-1.4',
+        '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+        '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+        '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj',
+        `4 0 obj << /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj`,
+        '%%EOF',
+      ].join('\n');
+
+      const res = await ingest({ title: 'Hidratação', base64: btoa(pdf), mimeType: 'application/pdf' });
+      const invalid = await ingest({ title: 'Quebrado', base64: 'não é base64!' });
+
+      expect(res.status).toBe(200);
+      expect(openaiEmbeddingsMock.mock.calls.at(-1)![0].input).toEqual(['Hidratacao: beba agua antes do treino']);
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ ok: false, error: 'Invalid base64' });
+    });
+
+    it('responde com passagens citáveis via consultar_base_conhecimento', async () => {
+      await ingest({
+        title: 'Metodologia Weburn',
+        source: 'metodologia.pdf',
+        text: 'O treino intervalado Weburn alterna tiros de alta intensidade com descanso ativo.\n\nHidratação: beba água antes do treino.',
+      });
+      let call = 0;
+      openaiCreateMock.mockImplementation(async () => {
+        call++;
+        if (call === 1) {
+          return {
+            choices: [
+              {
+                message: {
+                  role: 'assistant',
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: 'kb1',
+                      type: 'function',
+                      function: { name: 'consultar_base_conhecimento', arguments: '{"pergunta":"como funciona o treino intervalado"}' },
+                    },
+                  ],
+                },
+              },
+            ],
+          } as any;
+        }
+        return { choices: [{ message: { role: 'assistant', content: 'Segundo a Metodologia Weburn [1]...' } }] } as any;
+      });
+
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'como funciona o treino intervalado?' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+
+      const toolMsg = openaiCreateMock.mock.calls[1][0].messages.find((m: any) => m.role === 'tool');
+      const result = JSON.parse(toolMsg.content);
+      expect(result.passagens[0]).toMatchObject({ ref: '[1]', titulo: 'Metodologia Weburn', fonte: 'metodologia.pdf' });
+      expect(result.passagens[0].trecho).toContain('intervalado');
+    });
+  });
+
+  describe('loop do agente', () => {
+    const env = makeEnv({ WEBURN_API_URL: 'https://example.weburn/api/programas' });
+    const toolCall = (id: string, name: string, args: any) => ({
+      id,
+      type: 'function',
+      function: { name, arguments: JSON.stringify(args) },
+    });
+    const assistantWith = (...tool_calls: any[]) => ({ choices: [{ message: { role: 'assistant', content: null, tool_calls } }] }) as any;
+    const runTurn = async (extraEnv: any = {}) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'quero um programa' }),
+        }),
+        { ...env, ...extraEnv },
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+
+    it('encadeia ferramentas e executa tool calls do mesmo passo em paralelo', async () => {
+      const programa = { nivel: 'Iniciante', modalidade: 'HIIT', possui_equipamentos: false };
+      openaiCreateMock
+        .mockResolvedValueOnce(assistantWith(toolCall('a', 'buscar_programas_weburn', programa), toolCall('b', 'buscar_programas_weburn', programa)))
+        .mockResolvedValueOnce(
+          assistantWith(
+            toolCall('c', 'send_whatsapp_list', {
+              to: '+5511999998888',
+              body: 'Programas',
+              button: 'Ver',
+              sections: [{ title: 'HIIT', rows: [{ id: 'p1', title: 'HIIT Iniciante' }] }],
+            })
+          )
+        )
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Enviei as opções!' } }] } as any);
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      fetchSpy.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((r) => setTimeout(r, 5));
+        inFlight--;
+        return new Response(JSON.stringify([{ id: 'p1' }]), { status: 200 });
+      });
+
+      const body = await runTurn();
+
+      expect(body.response).toBe('Enviei as opções!');
+      expect(body.metadata.toolCallsExecuted).toBe(3);
+      expect(body.metadata.steps.map((s: any) => s.toolCalls.length)).toEqual([2, 1, 0]);
+      expect(maxInFlight).toBe(2);
+      // a segunda rodada também recebe as tools
+      expect(openaiCreateMock.mock.calls[1][0].tools).toBeDefined();
+    });
+
+    it('cai para resposta em texto com opções numeradas quando o limite de passos acaba', async () => {
+      openaiCreateMock.mockImplementation(async (params: any) =>
+        params.tools
+          ? assistantWith(toolCall(crypto.randomUUID(), 'gerenciar_agenda_treino', { acao: 'consultar' }))
+          : ({ choices: [{ message: { role: 'assistant', content: '1) Tentar de novo\n2) Falar com suporte' } }] } as any)
+      );
+
+      const body = await runTurn({ AGENT_MAX_STEPS: '2' });
+
+      expect(body.metadata.budgetExhausted).toBe('steps');
+      expect(body.metadata.steps).toHaveLength(2);
+      expect(body.response).toContain('1)');
+      expect(openaiCreateMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('devolve erro estruturado ao modelo quando os argumentos são inválidos', async () => {
+      openaiCreateMock
+        .mockResolvedValueOnce(
+          assistantWith(
+            { id: 'a', type: 'function', function: { name: 'buscar_programas_weburn', arguments: '{nivel:' } },
+            toolCall('b', 'gerenciar_agenda_treino', { acao: 'apagar_tudo' })
+          )
+        )
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Pode repetir?' } }] } as any);
+
+      const body = await runTurn();
+
+      expect(body.response).toBe('Pode repetir?');
+      expect(fetchSpy).not.toHaveBeenCalled();
+      const toolMessages = openaiCreateMock.mock.calls[1][0].messages.filter((m: any) => m.role === 'tool');
+      const [invalidJson, invalidArgs] = toolMessages.map((m: any) => JSON.parse(m.content));
+      expect(invalidJson.error.code).toBe('INVALID_JSON');
+      expect(invalidArgs.error.code).toBe('INVALID_ARGUMENTS');
+      expect(invalidArgs.error.detail[0]).toContain('$.acao');
+    });
+
+    it('registra ferramentas do n8n a partir de N8N_TOOLS', async () => {
+      const N8N_TOOLS = JSON.stringify([
+        {
+          name: 'consultar_pedido',
+          description: 'Consulta o status de um pedido',
+          parameters: { type: 'object', properties: { pedido: { type: 'string' } }, required: ['pedido'] },
+          path: 'consultar-pedido',
+          sideEffect: 'read',
+        },
+      ]);
+      openaiCreateMock
+        .mockResolvedValueOnce(assistantWith(toolCall('a', 'consultar_pedido', { pedido: '123' })))
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Seu pedido foi enviado.' } }] } as any);
+      fetchSpy.mockResolvedValue(new Response(JSON.stringify({ status: 'enviado' }), { status: 200 }));
+
+      const body = await runTurn({ N8N_TOOLS });
+
+      expect(body.response).toBe('Seu pedido foi enviado.');
+      const tools = openaiCreateMock.mock.calls[0][0].tools.map((t: any) => t.function.name);
+      expect(tools).toContain('consultar_pedido');
+      const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('https://n8n.example/webhook/tool/consultar-pedido');
+      expect(JSON.parse(init.body as string)).toEqual({ pedido: '123' });
+    });
+  });
+
+  describe('streaming (SSE)', () => {
+    const env = makeEnv();
+    const chunk = (delta: any) => ({ choices: [{ index: 0, delta }] });
+    const sseRequest = (extra: Record<string, unknown> = {}) =>
+      new Request('http://worker', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', accept: 'text/event-stream', ...AUTH },
+        body: JSON.stringify({ conversationId: 'c1', newMessage: 'quero um programa', ...extra }),
+      });
+    const parseEvents = (text: string) =>
+      text
+        .trim()
+        .split('\n\n')
+        .map((block) => {
+          const [eventLine, dataLine] = block.split('\n');
+          return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+        });
+    const assistantHistory = () => table('conversation_history').filter((r) => r.role === 'assistant');
+
+    it('transmite deltas, eventos de tools e a metadata final', async () => {
+      openaiCreateMock
+        .mockImplementationOnce(async function* () {
+          yield chunk({ tool_calls: [{ index: 0, id: 't1', type: 'function', function: { name: 'buscar_programas_weburn', arguments: '{"nivel":' } }] });
+          yield chunk({ tool_calls: [{ index: 0, function: { arguments: '"Iniciante","modalidade":"HIIT","possui_equipamentos":false}' } }] });
+        })
+        .mockImplementationOnce(async function* () {
+          yield chunk({ content: 'Achei ' });
+          yield chunk({ content: 'um programa!' });
+        });
+      fetchSpy.mockResolvedValue(new Response(JSON.stringify([{ id: 'p1' }]), { status: 200 }));
+
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(sseRequest(), env, ctx);
+      const events = parseEvents(await res.text());
+      await waitOnExecutionContext(ctx);
+
+      expect(res.headers.get('content-type')).toContain('text/event-stream');
+      expect(events.map((e) => e.event)).toEqual(['tool_start', 'tool_end', 'delta', 'delta', 'done']);
+      expect(events[1].data).toMatchObject({ name: 'buscar_programas_weburn', ok: true });
+      const done = events[4].data;
+      expect(done).toMatchObject({ success: true, conversationId: 'c1', response: 'Achei um programa!' });
+      expect(done.metadata.toolCallsExecuted).toBe(1);
+      expect(openaiCreateMock.mock.calls[0][0].stream).toBe(true);
+      expect(assistantHistory().map((r) => r.content)).toEqual(['Achei um programa!']);
+    });
+
+    it('persiste a resposta parcial quando o cliente aborta o stream', async () => {
+      openaiCreateMock.mockImplementationOnce(async function* (_: any, opts: any) {
+        yield chunk({ content: 'Começando' });
+        await new Promise((resolve) => opts.signal.addEventListener('abort', resolve));
+        throw new Error('aborted');
+      });
+
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(sseRequest(), env, ctx);
+      const reader = res.body!.getReader();
+      const first = new TextDecoder().decode((await reader.read()).value);
+      expect(first).toContain('event: delta');
+      await reader.cancel();
+      await waitOnExecutionContext(ctx);
+
+      expect(assistantHistory().map((r) => r.content)).toEqual(['Começando']);
+    });
+
+    it('passa o telefone de deliverTo ao agente também no stream', async () => {
+      openaiCreateMock.mockImplementationOnce(async function* () {
+        yield chunk({ content: 'Oi!' });
+      });
+
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(sseRequest({ deliverTo: '+5511999998888' }), env, ctx);
+      await res.text();
+      await waitOnExecutionContext(ctx);
+
+      const system = openaiCreateMock.mock.calls[0][0].messages.filter((m: any) => m.role === 'system').map((m: any) => m.content);
+      expect(system).toContain('WhatsApp do usuário: +5511999998888');
+    });
+  });
+
+  describe('envio confiável de WhatsApp', () => {
+    const env = makeEnv();
+    const sendTurn = async (extraEnv: any = {}) => {
+      openaiCreateMock
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  { id: 't1', type: 'function', function: { name: 'send_whatsapp_text', arguments: JSON.stringify({ to: '11999998888', text: 'Oi!' }) } },
+                ],
+              },
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Feito.' } }] } as any);
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'me manda um oi' }),
+        }),
+        { ...env, ...extraEnv },
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return res;
+    };
+    const idempotencyKeys = () => fetchSpy.mock.calls.map(([, init]) => (init as any).headers['x-idempotency-key']);
+
+    it('refaz o envio após 502 com a mesma chave de idempotência', async () => {
+      fetchSpy.mockResolvedValueOnce(new Response('bad gateway', { status: 502 })).mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      await sendTurn();
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(idempotencyKeys()).toEqual(['c1:t1', 'c1:t1']);
+    });
+
+    it('enfileira na OUTBOUND_QUEUE quando os retries se esgotam', async () => {
+      const OUTBOUND_QUEUE = { send: vi.fn().mockResolvedValue(undefined) };
+      fetchSpy.mockImplementation(async () => new Response('unavailable', { status: 503 }));
+
+      await sendTurn({ OUTBOUND_QUEUE, OUTBOUND_MAX_ATTEMPTS: '2' });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(OUTBOUND_QUEUE.send).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotencyKey: 'c1:t1', error: expect.objectContaining({ code: 'HTTP_503' }) })
+      );
+      const toolMessage = openaiCreateMock.mock.calls[1][0].messages.find((m: any) => m.role === 'tool');
+      expect(JSON.parse(toolMessage.content)).toMatchObject({ ok: false, queued: true });
+    });
+
+    it('consumidor da fila reenvia, agenda retry ou registra falha definitiva', async () => {
+      const message = (text: string, attempts: number) => ({
+        body: { body: { to: '+5511999998888', message_type: 'text', payload: { text } }, idempotencyKey: `k-${text}`, traceId: 't' },
+        attempts,
+        ack: vi.fn(),
+        retry: vi.fn(),
+      });
+      const ok = message('ok', 1);
+      const flaky = message('flaky', 1);
+      const invalid = message('invalid', 1);
+      fetchSpy.mockImplementation(async (_url: any, init: any) => {
+        const { text } = JSON.parse(init.body).payload;
+        if (text === 'ok') return new Response('{}', { status: 200 });
+        if (text === 'flaky') return new Response('down', { status: 503 });
+        return new Response('bad request', { status: 400 });
+      });
+
+      await worker.queue!({ queue: 'perso-outbound', messages: [ok, flaky, invalid] } as any, { ...env, OUTBOUND_MAX_ATTEMPTS: '1' }, createExecutionContext());
+
+      expect(ok.ack).toHaveBeenCalled();
+      expect(flaky.retry).toHaveBeenCalled();
+      expect(flaky.ack).not.toHaveBeenCalled();
+      expect(invalid.ack).toHaveBeenCalled();
+      expect(table('outbound_failures')).toEqual([expect.objectContaining({ idempotency_key: 'k-invalid', attempts: 1 })]);
+    });
+  });
+
+  describe('deduplicação e serialização de mensagens', () => {
+    const env = makeEnv();
+    const post = async (body: any) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', { method: 'POST', headers: { 'content-type': 'application/json', ...AUTH }, body: JSON.stringify(body) }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+
+    it('confirma retries com o mesmo messageId sem rodar o agente de novo', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] } as any);
+
+      const first = await post({ conversationId: 'c1', newMessage: 'oi', messageId: 'wamid.1' });
+      const retry = await post({ conversationId: 'c1', newMessage: 'oi', messageId: 'wamid.1' });
+
+      expect(first.response).toBe('Olá!');
+      expect(retry).toMatchObject({ success: true, duplicate: true });
+      expect(openaiCreateMock).toHaveBeenCalledTimes(1);
+      expect(table('conversation_history').filter((r) => r.role === 'user')).toHaveLength(1);
+    });
+
+    it('deduplica retries simultâneos com o mesmo messageId', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] } as any);
+
+      const bodies = await Promise.all([
+        post({ conversationId: 'c1', newMessage: 'oi', messageId: 'wamid.1' }),
+        post({ conversationId: 'c1', newMessage: 'oi', messageId: 'wamid.1' }),
+      ]);
+
+      expect(bodies.filter((b) => b.duplicate)).toHaveLength(1);
+      expect(openaiCreateMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('responde mesmo quando o banco falha ao registrar o messageId', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] } as any);
+      dbErrors.inbound_messages = { code: '57P01', message: 'terminating connection' };
+
+      const body = await post({ conversationId: 'c1', newMessage: 'oi', messageId: 'wamid.1' });
+
+      expect(body.duplicate).toBeUndefined();
+      expect(body.response).toBe('Olá!');
+    });
+
+    it('processa um turno por vez na mesma conversa', async () => {
+      let releaseFirst!: () => void;
+      const firstBlocked = new Promise<void>((resolve) => (releaseFirst = resolve));
+      openaiCreateMock
+        .mockImplementationOnce(async () => {
+          await firstBlocked;
+          return { choices: [{ message: { role: 'assistant', content: 'resposta 1' } }] };
+        })
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'resposta 2' } }] } as any);
+
+      const first = post({ conversationId: 'c1', newMessage: 'mensagem 1', messageId: 'm1' });
+      const second = post({ conversationId: 'c1', newMessage: 'mensagem 2', messageId: 'm2' });
+      await new Promise((r) => setTimeout(r, 20));
+      expect(openaiCreateMock).toHaveBeenCalledTimes(1);
+      releaseFirst();
+      await Promise.all([first, second]);
+
+      expect(table('conversation_history').map((r) => r.content)).toEqual(['mensagem 1', 'resposta 1', 'mensagem 2', 'resposta 2']);
+    });
+
+    it('junta uma rajada de mensagens (e áudio transcrito) num único turno', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Bora treinar!' } }] } as any);
+      const debounced = async (newMessage: string, messageId: string) => {
+        const ctx = createExecutionContext();
+        const res = await worker.fetch(
+          new Request('http://worker', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', ...AUTH },
+            body: JSON.stringify({ conversationId: 'c1', newMessage, messageId }),
+          }),
+          { ...env, INBOUND_DEBOUNCE_MS: '60' },
+          ctx
+        );
+        await waitOnExecutionContext(ctx);
+        return (await res.json()) as any;
+      };
+      const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+      const first = debounced('oi', 'm1');
+      await sleep(10);
+      const second = debounced('quero treinar', 'm2');
+      await sleep(10);
+      const third = debounced('sou iniciante', 'm3');
+      await sleep(30);
+      table('conversation_history').push({ conversation_id: 'c1', role: 'user', content: '[áudio] tenho halteres', created_at: new Date().toISOString() });
+      const bodies = await Promise.all([first, second, third]);
+
+      expect(bodies.map((b) => b.merged ?? false)).toEqual([true, true, false]);
+      expect(bodies[2].response).toBe('Bora treinar!');
+      expect(openaiCreateMock).toHaveBeenCalledTimes(1);
+      expect(table('conversation_history').map((r) => r.content)).toEqual([
+        'oi',
+        'quero treinar',
+        'sou iniciante',
+        '[áudio] tenho halteres',
+        'Bora treinar!',
+      ]);
+    });
+  });
+
+  describe('contexto com orçamento de tokens', () => {
+    const env = makeEnv({ CONTEXT_TOKEN_BUDGET: '200' });
+    const turn = async (newMessage: string) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+
+    it('dobra mensagens antigas num resumo incremental e reporta o que entrou no contexto', async () => {
+      for (let i = 0; i < 8; i++) {
+        table('conversation_history').push({
+          conversation_id: 'c1',
+          role: i % 2 ? 'assistant' : 'user',
+          content: `mensagem antiga ${i} `.padEnd(160, '.'),
+          created_at: `2026-01-01T00:00:0${i}.000Z`,
+        });
+      }
+      openaiCreateMock.mockImplementation(async (params: any) => ({
+        choices: [{ message: { role: 'assistant', content: params.tools ? 'Resposta' : 'Usuário quer hipertrofia' } }],
+      }));
+
+      const first = await turn('e agora?');
+
+      const summarizeCalls = () => openaiCreateMock.mock.calls.filter(([params]: any) => !params.tools);
+      expect(summarizeCalls()).toHaveLength(1);
+      expect(first.metadata.context).toMatchObject({ summary: true, budgetTokens: 200 });
+      expect(first.metadata.context.folded).toBeGreaterThan(0);
+      expect(first.metadata.context.summaryTokens + first.metadata.context.messageTokens).toBeLessThanOrEqual(200);
+      const [summaryRow] = table('conversation_summaries');
+      expect(summaryRow).toMatchObject({ conversation_id: 'c1', summary: 'Usuário quer hipertrofia' });
+      const agentMessages = openaiCreateMock.mock.calls.find(([params]: any) => params.tools)![0].messages;
+      expect(agentMessages.some((m: any) => m.role === 'system' && m.content.includes('Usuário quer hipertrofia'))).toBe(true);
+      expect(agentMessages[agentMessages.length - 1]).toMatchObject({ role: 'user', content: 'e agora?' });
+
+      // Próximo turno cabe no orçamento: reaproveita o resumo salvo sem resumir de novo
+      const second = await turn('ok');
+      expect(summarizeCalls()).toHaveLength(1);
+      expect(second.metadata.context).toMatchObject({ summary: true, folded: 0 });
+    });
+  });
+
+  describe('perfil do usuário', () => {
+    const env = makeEnv();
+    const turn = async (newMessage: string) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+
+    it('extrai fatos após o turno e os leva ao prompt dos turnos seguintes', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Boa!' } }] } as any);
+      openaiProfileMock.mockResolvedValueOnce({
+        choices: [{ message: { role: 'assistant', content: JSON.stringify({ nome: 'Ana', nivel: 'Iniciante', dias_preferidos: ['segunda', 'quarta'], cor: 'azul' }) } }],
+      });
+
+      await turn('Sou a Ana, iniciante, treino segunda e quarta');
+
+      expect(table('user_profiles')).toEqual([
+        expect.objectContaining({ user_id: 'c1', profile: { nome: 'Ana', nivel: 'Iniciante', dias_preferidos: ['seg', 'qua'] } }),
+      ]);
+
+      await turn('me sugere um treino');
+
+      const system = openaiCreateMock.mock.calls[1][0].messages.filter((m: any) => m.role === 'system').map((m: any) => m.content);
+      expect(system).toContain('Perfil do usuário (memória de longo prazo): Nome: Ana; Nível: Iniciante; Dias preferidos: seg, qua');
+    });
+
+    it('permite ao modelo ler e corrigir o perfil pelas tools', async () => {
+      table('user_profiles').push({ user_id: 'c1', profile: { nivel: 'Iniciante', possui_equipamentos: false } });
+      const call = (id: string, name: string, args: any) => ({ id, type: 'function', function: { name, arguments: JSON.stringify(args) } });
+      openaiCreateMock
+        .mockResolvedValueOnce({
+          choices: [{ message: { role: 'assistant', content: null, tool_calls: [call('a', 'atualizar_perfil_usuario', { possui_equipamentos: true, equipamentos: ['halteres'] })] } }],
+        } as any)
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: null, tool_calls: [call('b', 'consultar_perfil_usuario', {})] } }] } as any)
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Anotado!' } }] } as any);
+
+      await turn('comprei halteres');
+
+      const toolResult = openaiCreateMock.mock.calls[2][0].messages.filter((m: any) => m.role === 'tool').pop();
+      expect(JSON.parse(toolResult.content).perfil).toEqual({ nivel: 'Iniciante', possui_equipamentos: true, equipamentos: ['halteres'] });
+    });
+  });
+
+  describe('prompts versionados', () => {
+    const env = makeEnv();
+    const turn = async (conversationId = 'c1') => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId, newMessage: 'oi' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+    const lastAgentCall = () => openaiCreateMock.mock.calls[openaiCreateMock.mock.calls.length - 1][0];
+
+    beforeEach(() => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] } as any);
+    });
+
+    it('usa o texto local sem versões cadastradas', async () => {
+      const body = await turn();
+
+      expect(body.metadata.promptVersion).toBe('local');
+      expect(lastAgentCall().messages[0].content).toContain('Você é o Perso');
+    });
+
+    it('carrega a versão ativa, fixa a conversa nela e registra a versão no histórico', async () => {
+      table('prompt_versions').push({
+        tenant_id: 'weburn',
+        version: 'v2',
+        status: 'active',
+        system_prompt: 'Você é o Perso v2.',
+        tool_descriptions: { buscar_programas_weburn: 'Descrição revisada' },
+      });
+
+      const body = await turn();
+
+      expect(body.metadata.promptVersion).toBe('v2');
+      expect(lastAgentCall().messages[0].content).toBe('Você é o Perso v2.');
+      const tool = lastAgentCall().tools.find((t: any) => t.function.name === 'buscar_programas_weburn');
+      expect(tool.function.description).toBe('Descrição revisada');
+      expect(table('conversation_prompt_versions')).toEqual([expect.objectContaining({ conversation_id: 'c1', version: 'v2' })]);
+      expect(table('conversation_history').find((r) => r.role === 'assistant')).toMatchObject({ prompt_version: 'v2' });
+    });
+
+    it('direciona a porcentagem configurada para a candidata e mantém conversas fixadas', async () => {
+      table('prompt_versions').push(
+        { tenant_id: 'weburn', version: 'v2', status: 'active', system_prompt: 'ativa' },
+        { tenant_id: 'weburn', version: 'v3', status: 'candidate', system_prompt: 'candidata', traffic_percent: 100 }
+      );
+
+      expect((await turn('c1')).metadata.promptVersion).toBe('v3');
+
+      table('prompt_versions')[1].traffic_percent = 0;
+      expect((await turn('c1')).metadata.promptVersion).toBe('v3');
+      expect((await turn('c2')).metadata.promptVersion).toBe('v2');
+    });
+
+    it('separa versões de mesmo nome por tenant', async () => {
+      const TENANTS = JSON.stringify([{ id: 'acme', name: 'Acme Fit' }]);
+      table('prompt_versions').push(
+        { tenant_id: 'acme', version: 'v1', status: 'active', system_prompt: 'Você é a Lia, da Acme Fit.' },
+        { tenant_id: 'weburn', version: 'v1', status: 'active', system_prompt: 'Você é o Perso v1.' }
+      );
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker/t/acme', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'oi' }),
+        }),
+        { ...env, TENANTS },
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      expect(lastAgentCall().messages[0].content).toBe('Você é a Lia, da Acme Fit.');
+
+      await turn('c1');
+      expect(lastAgentCall().messages[0].content).toBe('Você é o Perso v1.');
+      expect(table('conversation_prompt_versions')).toEqual([
+        expect.objectContaining({ conversation_id: 'acme:c1', tenant_id: 'acme', version: 'v1' }),
+        expect.objectContaining({ conversation_id: 'c1', tenant_id: 'weburn', version: 'v1' }),
+      ]);
+    });
+  });
+
+  describe('multi-tenant', () => {
+    const TENANTS = JSON.stringify([
+      {
+        id: 'acme',
+        name: 'Acme Fit',
+        persona: 'Você é a Lia, da Acme Fit.',
+        enabledTools: ['send_whatsapp_text'],
+        n8nWebhookUrl: 'https://n8n.acme.example/webhook',
+        model: 'gpt-4o',
+      },
+    ]);
+    const env = makeEnv({ TENANTS });
+    const post = async (path: string, extraEnv: any = {}) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request(`http://worker${path}`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'oi' }),
+        }),
+        { ...env, ...extraEnv },
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return res;
+    };
+
+    it('usa persona, ferramentas, modelo, n8n e armazenamento do tenant da rota', async () => {
+      openaiCreateMock
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 't1', type: 'function', function: { name: 'send_whatsapp_text', arguments: JSON.stringify({ to: '11999998888', text: 'Oi!' }) } }],
+              },
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Olá da Acme!' } }] } as any);
+      fetchSpy.mockResolvedValue(new Response('{}', { status: 200 }));
+
+      const res = await post('/t/acme');
+      const body = (await res.json()) as any;
+
+      expect(body).toMatchObject({ success: true, conversationId: 'c1', response: 'Olá da Acme!' });
+      const params = openaiCreateMock.mock.calls[0][0];
+      expect(params.model).toBe('gpt-4o');
+      expect(params.messages[0].content).toBe('Você é a Lia, da Acme Fit.');
+      expect(params.tools.map((t: any) => t.function.name)).toEqual(['send_whatsapp_text']);
+      expect(fetchSpy.mock.calls[0][0]).toBe('https://n8n.acme.example/webhook/tool/send-whatsapp');
+      expect(table('conversation_history').map((r) => r.conversation_id)).toEqual(['acme:c1', 'acme:c1']);
+    });
+
+    it('omite tools e tool_choice quando o tenant não habilita nenhuma ferramenta', async () => {
+      const tenants = JSON.stringify([{ ...JSON.parse(TENANTS)[0], enabledTools: [] }]);
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] } as any);
+
+      const res = await post('/t/acme', { TENANTS: tenants });
+
+      expect(res.status).toBe(200);
+      const params = openaiCreateMock.mock.calls[0][0];
+      expect(params).not.toHaveProperty('tools');
+      expect(params).not.toHaveProperty('tool_choice');
+    });
+
+    it('prende o cliente ao seu tenant', async () => {
+      const clients = JSON.stringify([{ ...JSON.parse(API_CLIENTS)[0], tenant: 'acme' }]);
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] } as any);
+
+      const denied = await post('/t/weburn', { API_CLIENTS: clients });
+      expect(denied.status).toBe(403);
+
+      const res = await post('/', { API_CLIENTS: clients });
+      expect(res.status).toBe(200);
+      expect(openaiCreateMock.mock.calls[0][0].model).toBe('gpt-4o');
+      expect(table('conversation_history')[0].conversation_id).toBe('acme:c1');
+    });
+
+    it('reporta a configuração de cada tenant em /health', async () => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(new Request('http://worker/health'), env, ctx);
+      const health = (await res.json()) as any;
+
+      expect(health.tenants).toEqual([
+        expect.objectContaining({ id: 'weburn', storage: 'default', model: 'gpt-4o-mini', n8n: true }),
+        expect.objectContaining({ id: 'acme', storage: 'shared-prefixed', model: 'gpt-4o', tools: 1, persona: 'custom' }),
+      ]);
+    });
+
+    it('roda os jobs do cron também no Supabase próprio de cada tenant', async () => {
+      const tenants = JSON.stringify([
+        ...JSON.parse(TENANTS),
+        { id: 'zen', name: 'Zen', supabaseUrl: 'https://zen.supabase.example', supabaseAnonKey: 'zen-anon', n8nWebhookUrl: 'https://n8n.zen.example/webhook' },
+      ]);
+      const sends: Record<string, any[]> = { weburn: [], acme: [], zen: [] };
+      fetchSpy.mockImplementation(
+        fetchRouter({ 'n8n.acme.example': captureN8n(sends.acme), 'n8n.zen.example': captureN8n(sends.zen), 'n8n.example': captureN8n(sends.weburn) })
+      );
+      const schedule = (user_id: string, phone: string) => ({ user_id, days: ['qua'], timezone: 'America/Sao_Paulo', phone, paused: false });
+      table('training_schedule').push(schedule('u1', '+5511911110000'), schedule('acme:u2', '+5511922220000'));
+      table('zen.supabase.example/training_schedule').push(schedule('u3', '+5511933330000'));
+
+      const ctx = createExecutionContext();
+      await worker.scheduled(
+        createScheduledController({ scheduledTime: Date.parse('2026-10-21T12:00:00Z'), cron: '0 * * * *' }),
+        { ...env, TENANTS: tenants },
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+
+      expect(sends.weburn.map((m) => m.to)).toEqual(['+5511911110000']);
+      expect(sends.acme.map((m) => m.to)).toEqual(['+5511922220000']);
+      expect(sends.zen.map((m) => m.to)).toEqual(['+5511933330000']);
+      expect(table('zen.supabase.example/training_reminders')).toEqual([expect.objectContaining({ user_id: 'u3', status: 'sent' })]);
+    });
+  });
+
+  describe('camada de modelos', () => {
+    // Nomes de modelo exclusivos: o estado do circuit breaker é do isolate e persiste entre testes
+    const MODEL_CONFIG = JSON.stringify({
+      providers: { backup: { baseURL: 'https://llm.backup.example/v1', apiKeyVar: 'BACKUP_API_KEY' } },
+      routes: {
+        chat: [
+          { provider: 'openai', model: 'primario-chat', temperature: 0.5, maxTokens: 800 },
+          { provider: 'backup', model: 'reserva-chat' },
+        ],
+        doc: [{ provider: 'openai', model: 'primario-doc', api: 'responses', maxTokens: 300 }],
+      },
+    });
+    const env = makeEnv({ BACKUP_API_KEY: 'bk-test', MODEL_CONFIG });
+    const turn = async (conversationId: string) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId, newMessage: 'oi' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+
+    it('usa o modelo configurado e cai para o próximo da cadeia quando ele falha', async () => {
+      openaiCreateMock.mockImplementation(async (params: any) => {
+        if (params.model === 'primario-chat') throw Object.assign(new Error('overloaded'), { status: 529 });
+        return { choices: [{ message: { role: 'assistant', content: 'Oi pela reserva!' } }] };
+      });
+
+      const body = await turn('c1');
+
+      expect(body.response).toBe('Oi pela reserva!');
+      expect(body.metadata.model).toEqual({ provider: 'backup', model: 'reserva-chat' });
+      expect(openaiCreateMock.mock.calls[0][0]).toMatchObject({ model: 'primario-chat', temperature: 0.5, max_tokens: 800 });
+      expect(openaiCreateMock.mock.calls[1][0].model).toBe('reserva-chat');
+      expect(openaiClientMock).toHaveBeenCalledWith({ apiKey: 'bk-test', baseURL: 'https://llm.backup.example/v1' });
+    });
+
+    it('abre o circuito após falhas seguidas e pula o modelo enquanto ele estiver aberto', async () => {
+      const config = JSON.stringify({
+        routes: { chat: [{ provider: 'openai', model: 'instavel' }, { provider: 'openai', model: 'estavel' }] },
+      });
+      openaiCreateMock.mockImplementation(async (params: any) => {
+        if (params.model === 'instavel') throw new Error('timeout');
+        return { choices: [{ message: { role: 'assistant', content: 'Oi!' } }] };
+      });
+      const ask = async (id: string) => {
+        const ctx = createExecutionContext();
+        const res = await worker.fetch(
+          new Request('http://worker', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', ...AUTH },
+            body: JSON.stringify({ conversationId: id, newMessage: 'oi' }),
+          }),
+          { ...env, MODEL_CONFIG: config },
+          ctx
+        );
+        await waitOnExecutionContext(ctx);
+        return (await res.json()) as any;
+      };
+
+      for (const id of ['c1', 'c2', 'c3']) await ask(id);
+      openaiCreateMock.mockClear();
+      const body = await ask('c4');
+
+      expect(body.metadata.model.model).toBe('estavel');
+      expect(openaiCreateMock.mock.calls.map((c) => c[0].model)).toEqual(['estavel']);
+    });
+
+    it('atende /multimodal/doc pela Responses API quando o alvo pede', async () => {
+      openaiResponsesMock.mockResolvedValue({ output_text: 'Resumo do PDF' });
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker/multimodal/doc', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', text: 'Treino A: agachamento 4x10', prompt: 'Resuma' }),
+        }),
+        env,
+        ctx
+      );
+      const body = (await res.json()) as any;
+
+      expect(body).toMatchObject({ ok: true, result: 'Resumo do PDF', model: 'primario-doc', provider: 'openai' });
+      expect(openaiResponsesMock.mock.calls[0][0]).toMatchObject({ model: 'primario-doc', max_output_tokens: 300 });
+      expect(openaiResponsesMock.mock.calls[0][0].input[1].content).toContain('agachamento');
+      expect(openaiCreateMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mensagens para WhatsApp', () => {
+    const env = makeEnv({ WHATSAPP_TYPING_MS_PER_CHAR: '0' });
+    const LONG_REPLY =
+      '## Seu treino de hoje\n\n' +
+      'Boa, **Ana**! Separei um treino *leve* para você. ' +
+      'Ele foca em mobilidade e core, dura uns 30 minutos e não precisa de equipamentos. ' +
+      'Se sentir qualquer dor no joelho, pare e me avise. Depois me conte como foi, combinado? ' +
+      'Amanhã a gente ajusta a intensidade conforme o seu feedback.\n\n\n' +
+      '- Aquecimento\n- Circuito de core\n- Alongamento\n\n' +
+      'Veja o [programa completo](https://weburn.example/p/1).';
+    const post = async (extra: any = {}) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'oi', ...extra }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+
+    beforeEach(() => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: LONG_REPLY } }] } as any);
+    });
+
+    it('formata o Markdown para o WhatsApp e quebra em mensagens de até 240 caracteres', async () => {
+      const body = await post();
+
+      expect(body.response).toBe(LONG_REPLY);
+      expect(body.mensagens[0]).toBe('*Seu treino de hoje*');
+      expect(body.mensagens[1]).toMatch(/^Boa, \*Ana\*! Separei um treino _leve_ para você\./);
+      expect(body.mensagens).toContain('• Aquecimento\n• Circuito de core\n• Alongamento');
+      expect(body.mensagens[body.mensagens.length - 1]).toBe('Veja o programa completo: https://weburn.example/p/1.');
+      for (const m of body.mensagens) {
+        expect(m.trim().length).toBeGreaterThan(0);
+        expect(m.length).toBeLessThanOrEqual(240);
+      }
+      // O parágrafo longo quebra entre frases, nunca no meio
+      const paragraph = body.mensagens.filter((m: string) => /Ana|joelho|Amanhã/.test(m));
+      expect(paragraph.length).toBeGreaterThan(1);
+      for (const m of paragraph) expect(m).toMatch(/[.?!]$/);
+    });
+
+    it('entrega as mensagens em ordem pelo send-whatsapp quando pedido', async () => {
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': () => okJson({}) }));
+
+      const body = await post({ deliverTo: '(11) 99999-8888', messageId: 'wamid.1' });
+
+      const sends = fetchSpy.mock.calls.filter(([url]) => String(url).endsWith('/tool/send-whatsapp'));
+      expect(sends.map(([, init]) => JSON.parse((init as any).body).payload.text)).toEqual(body.mensagens);
+      expect(sends.map(([, init]) => (init as any).headers['x-idempotency-key'])).toEqual(body.mensagens.map((_: string, i: number) => `reply:wamid.1:${i}`));
+      expect(JSON.parse((sends[0][1] as any).body)).toMatchObject({ to: '+5511999998888', payload: { reply_to: 'wamid.1' } });
+      expect(JSON.parse((sends[1][1] as any).body).payload.reply_to).toBeUndefined();
+    });
+  });
+
+  describe('envios ricos de WhatsApp', () => {
+    const env = makeEnv();
+    const toolCall = (id: string, name: string, args: any) => ({ id, type: 'function', function: { name, arguments: JSON.stringify(args) } });
+
+    it('envia mídia, botão de link, localização, reação e template respeitando os limites da Meta', async () => {
+      const to = '+5511999998888';
+      openaiCreateMock
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  toolCall('m1', 'send_whatsapp_media', { to, type: 'document', url: 'https://cdn.example/ficha.pdf', caption: 'Sua ficha', filename: 'ficha.pdf' }),
+                  toolCall('m2', 'send_whatsapp_media', { to, type: 'audio', media_id: 'media-9', caption: 'ignorada' }),
+                  toolCall('m3', 'send_whatsapp_media', { to, type: 'image', url: 'https://cdn.example/a.png', media_id: 'media-1' }),
+                  toolCall('c1', 'send_whatsapp_cta_url', { to, body: 'Seu treino está no app', button_text: 'Abrir o app Weburn agora mesmo', url: 'https://app.weburn.example' }),
+                  toolCall('l1', 'send_whatsapp_location', { to, latitude: -23.58, longitude: -46.66, name: 'Parque Ibirapuera' }),
+                  toolCall('r1', 'send_whatsapp_reaction', { to, message_id: 'wamid.9', emoji: '💪🏽 bora' }),
+                  toolCall('t1', 'send_whatsapp_template', { to, name: 'lembrete_treino', body_params: ['Ana', 'HIIT'], button_url_params: ['p/1'] }),
+                ],
+              },
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Enviado!' } }] } as any);
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': () => okJson({}) }));
+
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c1', newMessage: 'manda a ficha' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      expect(((await res.json()) as any).response).toBe('Enviado!');
+
+      const sent = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as any).body));
+      expect(sent.map((b) => b.message_type)).toEqual(['document', 'audio', 'interactive', 'location', 'reaction', 'template']);
+      expect(sent[0].payload.document).toEqual({ link: 'https://cdn.example/ficha.pdf', caption: 'Sua ficha', filename: 'ficha.pdf' });
+      expect(sent[1].payload.audio).toEqual({ id: 'media-9' });
+      expect(sent[2].payload).toMatchObject({
+        type: 'cta_url',
+        action: { name: 'cta_url', parameters: { display_text: 'Abrir o app Weburn a', url: 'https://app.weburn.example' } },
+      });
+      expect(sent[3].payload).toMatchObject({ latitude: -23.58, longitude: -46.66, name: 'Parque Ibirapuera' });
+      expect(sent[4].payload).toEqual({ message_id: 'wamid.9', emoji: '💪🏽' });
+      expect(sent[5].payload).toEqual({
+        name: 'lembrete_treino',
+        language: { code: 'pt_BR' },
+        components: [
+          { type: 'body', parameters: [{ type: 'text', text: 'Ana' }, { type: 'text', text: 'HIIT' }] },
+          { type: 'button', sub_type: 'url', index: '0', parameters: [{ type: 'text', text: 'p/1' }] },
+        ],
+      });
+      // url e media_id juntos: erro devolvido ao modelo, nada é enviado
+      const toolMsg = openaiCreateMock.mock.calls[1][0].messages.find((m: any) => m.role === 'tool' && m.tool_call_id === 'm3');
+      expect(toolMsg.content).toContain('INVALID_MEDIA');
+    });
+  });
+
+  describe('janela de 24h do WhatsApp', () => {
+    const env = makeEnv();
+    const hoursAgo = (h: number) => new Date(Date.now() - h * 3600_000).toISOString();
+    const post = async (path: string, payload: any, extraEnv: any = {}) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request(`http://worker${path}`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify(payload),
+        }),
+        { ...env, ...extraEnv },
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+    const sendTextTurn = (to: string) => {
+      openaiCreateMock
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 's1', type: 'function', function: { name: 'send_whatsapp_text', arguments: JSON.stringify({ to, text: 'Bora treinar hoje?' }) } }],
+              },
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ choices: [{ message: { role: 'assistant', content: 'Ok' } }] } as any);
+    };
+
+    beforeEach(() => {
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': () => okJson({}) }));
+    });
+
+    it('registra a última entrada do contato e envia texto livre dentro da janela', async () => {
+      sendTextTurn('+5511999998888');
+
+      await post('/', { conversationId: 'c1', newMessage: 'oi', deliverTo: '11999998888' });
+
+      expect(table('whatsapp_contacts')).toEqual([expect.objectContaining({ contact_id: '+5511999998888' })]);
+      const sent = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as any).body));
+      expect(sent[0]).toMatchObject({ message_type: 'text', payload: { text: 'Bora treinar hoje?' } });
+      expect(table('whatsapp_window_events')[0]).toMatchObject({ window: 'open', action: 'sent', tenant_id: 'weburn' });
+    });
+
+    it('recusa texto livre fora da janela com erro tipado para o agente', async () => {
+      table('whatsapp_contacts').push({ contact_id: '+5511999998888', last_inbound_at: hoursAgo(30) });
+      sendTextTurn('+5511999998888');
+
+      await post('/', { conversationId: 'c1', newMessage: 'lembra de mim amanhã' });
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      const toolMsg = openaiCreateMock.mock.calls[1][0].messages.find((m: any) => m.role === 'tool');
+      expect(JSON.parse(toolMsg.content)).toMatchObject({ ok: false, error: { code: 'OUTSIDE_24H_WINDOW' } });
+    });
+
+    it('troca para o template configurado fora da janela e reporta dentro x fora', async () => {
+      table('whatsapp_contacts').push(
+        { contact_id: '+5511999998888', last_inbound_at: hoursAgo(30) },
+        { contact_id: '+5511988887777', last_inbound_at: hoursAgo(2) }
+      );
+      const WHATSAPP_WINDOW_TEMPLATE = JSON.stringify({ name: 'perso_retomada', textParam: true });
+
+      sendTextTurn('+5511999998888');
+      await post('/', { conversationId: 'c1', newMessage: 'oi' }, { WHATSAPP_WINDOW_TEMPLATE });
+      sendTextTurn('+5511988887777');
+      await post('/', { conversationId: 'c2', newMessage: 'oi' }, { WHATSAPP_WINDOW_TEMPLATE });
+
+      const sent = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as any).body));
+      expect(sent[0]).toEqual({
+        to: '+5511999998888',
+        message_type: 'template',
+        payload: {
+          name: 'perso_retomada',
+          language: { code: 'pt_BR' },
+          components: [{ type: 'body', parameters: [{ type: 'text', text: 'Bora treinar hoje?' }] }],
+        },
+      });
+      expect(sent[1]).toMatchObject({ to: '+5511988887777', message_type: 'text' });
+
+      const report = await post('/reports/whatsapp-window', { days: 7 });
+      expect(report).toMatchObject({
+        ok: true,
+        total: 2,
+        byWindow: { open: 1, closed: 1, unknown: 0 },
+        byAction: { sent: 1, template: 1, blocked: 0 },
+        insideRate: 0.5,
+      });
+    });
+  });
+
+  describe('respostas de menus interativos', () => {
+    const env = makeEnv({ WHATSAPP_APP_SECRET: 'app-secret' });
+    const tap = async (id: string, title: string, kind: 'button_reply' | 'list_reply' = 'button_reply') => {
+      const body = JSON.stringify({
+        object: 'whatsapp_business_account',
+        entry: [
+          {
+            changes: [
+              {
+                value: {
+                  messaging_product: 'whatsapp',
+                  metadata: { phone_number_id: '123' },
+                  messages: [
+                    {
+                      id: `wamid.${crypto.randomUUID()}`,
+                      from: '5511999998888',
+                      timestamp: '1700000000',
+                      type: 'interactive',
+                      interactive: { type: kind, [kind]: { id, title } },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        ],
+      });
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker/webhooks/whatsapp', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'x-hub-signature-256': `sha256=${await hmacHex('app-secret', body)}` },
+          body,
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+    };
+    const choiceInstruction = () =>
+      openaiCreateMock.mock.calls[openaiCreateMock.mock.calls.length - 1][0].messages.find(
+        (m: any) => m.role === 'system' && /toc|escolheu/.test(m.content)
+      )?.content;
+
+    beforeEach(() => {
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': () => okJson({}) }));
+    });
+
+    it('registra as opções enviadas e devolve o toque ao agente como escolha estruturada', async () => {
+      openaiCreateMock
+        .mockResolvedValueOnce({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'b1',
+                    type: 'function',
+                    function: {
+                      name: 'send_whatsapp_buttons',
+                      arguments: JSON.stringify({
+                        to: '+5511999998888',
+                        body: 'Qual programa?',
+                        buttons: [
+                          { id: '1', text: 'HIIT Iniciante', value: 'programa:hiit-101' },
+                          { id: '2', text: 'Yoga' },
+                        ],
+                      }),
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        } as any)
+        .mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Ótima escolha!' } }] } as any);
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: '5511999998888', newMessage: 'quero um programa' }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+
+      expect(table('interactive_menus')).toEqual([
+        expect.objectContaining({
+          contact_id: '+5511999998888',
+          kind: 'button',
+          options: [
+            { id: '1', title: 'HIIT Iniciante', value: 'programa:hiit-101' },
+            { id: '2', title: 'Yoga', value: 'Yoga' },
+          ],
+        }),
+      ]);
+
+      // O id que vai para o WhatsApp aponta o menu: "<menu_id>:<id da opção>"
+      const menuId = table('interactive_menus')[0].menu_id;
+      const sent = JSON.parse(fetchSpy.mock.calls[0][1].body);
+      expect(sent.payload.action.buttons.map((b: any) => b.reply.id)).toEqual([`${menuId}:1`, `${menuId}:2`]);
+
+      await tap(`${menuId}:1`, 'HIIT Iniciante');
+
+      expect(choiceInstruction()).toContain('"id":"1"');
+      expect(choiceInstruction()).toContain('"value":"programa:hiit-101"');
+      expect(choiceInstruction()).toContain('menu "Qual programa?"');
+      // O histórico continua com o texto do toque
+      expect(table('conversation_history').filter((r) => r.role === 'user').map((r) => r.content)).toEqual(['quero um programa', 'HIIT Iniciante']);
+    });
+
+    it('trata toques em menus antigos e ids desconhecidos', async () => {
+      openaiCreateMock.mockResolvedValue({ choices: [{ message: { role: 'assistant', content: 'Ok' } }] } as any);
+      const [m1, m2] = [crypto.randomUUID(), crypto.randomUUID()];
+      table('interactive_menus').push(
+        {
+          menu_id: m1,
+          contact_id: '+5511999998888',
+          kind: 'list',
+          body: 'Escolha o treino',
+          options: [{ id: '1', title: 'HIIT', value: 'hiit' }],
+          created_at: new Date(Date.now() - 3 * 3600_000).toISOString(),
+        },
+        {
+          menu_id: m2,
+          contact_id: '+5511999998888',
+          kind: 'button',
+          body: 'Treinou hoje?',
+          options: [{ id: '1', title: 'Sim', value: 'sim' }],
+          created_at: new Date(Date.now() - 3600_000).toISOString(),
+        }
+      );
+
+      // Mesmo id "1" nos dois menus: o prefixo decide qual foi tocado
+      await tap(`${m1}:1`, 'HIIT', 'list_reply');
+      expect(choiceInstruction()).toContain('menu antigo ("Escolha o treino"');
+      expect(choiceInstruction()).toContain('"value":"hiit"');
+
+      await tap(`${m2}:1`, 'Sim');
+      expect(choiceInstruction()).toContain('menu "Treinou hoje?"');
+      expect(choiceInstruction()).toContain('"value":"sim"');
+
+      // Sem prefixo de menu (ou de outro contato/menu apagado) o id não é reconhecido
+      await tap('1', 'Sim');
+      expect(choiceInstruction()).toContain('não reconhecemos');
+      await tap(`${crypto.randomUUID()}:1`, 'Sim');
+      expect(choiceInstruction()).toContain('não reconhecemos');
+    });
+  });
+
+  describe('documentos (PDF/DOCX)', () => {
+    const env = makeEnv();
+    const latin1 = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+    const compress = async (data: Uint8Array, format: 'deflate' | 'deflate-raw') =>
+      new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream(format))).arrayBuffer());
+    const toBase64 = (bytes: Uint8Array) => btoa(latin1(bytes));
+
+    // PDF com duas páginas: texto simples numa e fonte com ToUnicode (códigos de 2 bytes) + FlateDecode na outra
+    const buildPdf = async () => {
+      const code = (word: string) => `<${[...word].map((ch) => (ch.charCodeAt(0) - 96).toString(16).padStart(4, '0')).join('')}>`;
+      const page1 = 'BT /F1 12 Tf 72 720 Td (Plano alimentar \\(semana 1\\)) Tj 0 -14 Td (Cafe: aveia e banana) Tj ET';
+      const page2 = latin1(await compress(new TextEncoder().encode(`BT /F2 12 Tf 72 720 Td [${code('jantar')} -300 ${code('leve')}] TJ ET`), 'deflate'));
+      const cmap = 'begincmap\n1 beginbfrange\n<0001> <001a> <0061>\nendbfrange\nendcmap';
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>',
+        '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+        '<< /Type /Page /Parent 2 0 R /Contents [8 0 R] >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+        '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /ToUnicode 9 0 R >>',
+        `<< /Length ${page1.length} >>\nstream\n${page1}\nendstream`,
+        `<< /Length ${page2.length} /Filter /FlateDecode >>\nstream\n${page2}\nendstream`,
+        `<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream`,
+      ];
+      const pdf = `%PDF-1.4\n${objects.map((o, i) => `${i + 1} 0 obj\n${o}\nendobj\n`).join('')}trailer\n<< /Root 1 0 R >>\n%%EOF`;
+      return Uint8Array.from(pdf, (c) => c.charCodeAt(0));
+    };
+
+    // DOCX mínimo: ZIP com document.xml comprimido (deflate-raw) e app.xml armazenado
+    const buildDocx = async (paragraphs: string[]) => {
+      const xml = `<?xml version="1.0"?><w:document><w:body>${paragraphs.map((p) => `<w:p><w:r><w:t>${p}</w:t></w:r></w:p>`).join('')}</w:body></w:document>`;
+      const files = [
+        { name: 'word/document.xml', data: await compress(new TextEncoder().encode(xml), 'deflate-raw'), size: new TextEncoder().encode(xml).length, method: 8 },
+        { name: 'docProps/app.xml', data: new TextEncoder().encode('<Properties><Pages>7</Pages></Properties>'), method: 0 },
+      ];
+      const chunks: number[] = [];
+      const central: number[] = [];
+      const u16 = (arr: number[], v: number) => arr.push(v & 0xff, (v >> 8) & 0xff);
+      const u32 = (arr: number[], v: number) => arr.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff);
+      for (const f of files) {
+        const name = new TextEncoder().encode(f.name);
+        const offset = chunks.length;
+        const size = f.size ?? f.data.length;
+        u32(chunks, 0x04034b50); u16(chunks, 20); u16(chunks, 0); u16(chunks, f.method); u32(chunks, 0); u32(chunks, 0);
+        u32(chunks, f.data.length); u32(chunks, size); u16(chunks, name.length); u16(chunks, 0);
+        chunks.push(...name, ...f.data);
+        u32(central, 0x02014b50); u16(central, 20); u16(central, 20); u16(central, 0); u16(central, f.method); u32(central, 0); u32(central, 0);
+        u32(central, f.data.length); u32(central, size); u16(central, name.length); u16(central, 0); u16(central, 0);
+        u16(central, 0); u16(central, 0); u32(central, 0); u32(central, offset);
+        central.push(...name);
+      }
+      const cdOffset = chunks.length;
+      chunks.push(...central);
+      u32(chunks, 0x06054b50); u16(chunks, 0); u16(chunks, 0); u16(chunks, files.length); u16(chunks, files.length);
+      u32(chunks, central.length); u32(chunks, cdOffset); u16(chunks, 0);
+      return new Uint8Array(chunks);
+    };
+    const post = async (payload: any) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request('http://worker/multimodal/doc', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify(payload),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return { status: res.status, body: (await res.json()) as any };
+    };
+
+    beforeEach(() => {
+      openaiCreateMock.mockImplementation(async (params: any) => ({
+        choices: [{ message: { role: 'assistant', content: params.messages[0].content.includes('trechos') ? 'nota' : 'Resposta final' } }],
+      }));
+    });
+
+    it('extrai o texto de um PDF em base64 por página', async () => {
+      const { status, body } = await post({ base64: toBase64(await buildPdf()), question: 'O que comer no jantar?' });
+
+      expect(status).toBe(200);
+      const prompt = openaiCreateMock.mock.calls[0][0].messages[1].content;
+      expect(prompt).toContain('O que comer no jantar?');
+      expect(prompt).toContain('Plano alimentar (semana 1)\nCafe: aveia e banana');
+      expect(prompt).toContain('jantar leve');
+      expect(body).toMatchObject({
+        ok: true,
+        result: 'Resposta final',
+        document: { format: 'pdf', pages: 2 },
+        coverage: { complete: true, chunks: { total: 1, processed: 1 }, pages: { total: 2, withText: 2, read: 2 } },
+      });
+    });
+
+    it('faz map-reduce de um DOCX longo por URL e reporta a cobertura', async () => {
+      const paragraph = 'Refeição livre no domingo, mantendo proteína em todas as refeições. '.repeat(40);
+      const docx = await buildDocx(Array.from({ length: 12 }, (_, i) => `Seção ${i + 1}: ${paragraph}`));
+      fetchSpy.mockResolvedValue(new Response(docx, { status: 200, headers: { 'content-type': 'application/octet-stream' } }));
+
+      const { body } = await post({ fileUrl: 'https://cdn.example/dieta.docx', question: 'Resuma a dieta' });
+
+      const calls = openaiCreateMock.mock.calls.map((c) => c[0].messages[1].content as string);
+      expect(body.coverage.chunks.total).toBeGreaterThan(1);
+      expect(calls).toHaveLength(body.coverage.chunks.total + 1);
+      expect(calls[0]).toContain('Trecho 1 de');
+      expect(calls[calls.length - 1]).toContain('[Trecho 1]\nnota');
+      expect(body).toMatchObject({ result: 'Resposta final', document: { format: 'docx', pages: 7 }, coverage: { complete: true, pages: null } });
+      expect(body.coverage.characters.processed).toBe(body.coverage.characters.total);
+    });
+
+    it('limita os trechos lidos e diz que a cobertura foi parcial', async () => {
+      const text = Array.from({ length: 30 }, (_, i) => `Parágrafo ${i}. ${'x'.repeat(11_000)}`).join('\n\n');
+
+      const { body } = await post({ text, question: 'Resuma' });
+
+      expect(body.coverage).toMatchObject({ complete: false, chunks: { total: 30, processed: 20 } });
+      expect(body.coverage.characters.processed).toBeLessThan(body.coverage.characters.total);
+      const reduce = openaiCreateMock.mock.calls[openaiCreateMock.mock.calls.length - 1][0].messages[1].content;
+      expect(reduce).toContain('só os primeiros 20 de 30 trechos');
+    });
+
+    it('recusa formatos não suportados com 415', async () => {
+      const { status, body } = await post({ base64: toBase64(new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3])) });
+
+      expect(status).toBe(415);
+      expect(body.error).toBe('UNSUPPORTED_DOC');
+      expect(openaiCreateMock).not.toHaveBeenCalled();
+    });
+
+    it('responde 400 para ZIP truncado ou com offsets fora do arquivo', async () => {
+      const docx = await buildDocx(['Treino A']);
+      // offset do cabeçalho local da 1ª entrada apontando para fora do arquivo
+      const corrupted = docx.slice();
+      const view = new DataView(corrupted.buffer);
+      view.setUint32(view.getUint32(corrupted.length - 6, true) + 42, 0xffffff00, true);
+
+      const truncated = await post({ base64: toBase64(docx.subarray(0, docx.length / 2)) });
+      const outOfBounds = await post({ base64: toBase64(corrupted) });
+
+      expect(truncated).toMatchObject({ status: 400, body: { ok: false, error: 'MALFORMED_DOC' } });
+      expect(outOfBounds).toMatchObject({ status: 400, body: { ok: false, error: 'MALFORMED_DOC' } });
+      expect(outOfBounds.body.detail).toContain('word/document.xml');
+      expect(openaiCreateMock).not.toHaveBeenCalled();
+    });
+
+    it('responde 400 rápido para PDF com cabeçalhos de objeto sem endobj', async () => {
+      const pdf = new TextEncoder().encode(`%PDF-1.4\n${'1 0 obj << /Type /Page >>\n'.repeat(20_000)}`);
+      const startedAt = Date.now();
+      const { status, body } = await post({ base64: toBase64(pdf) });
+
+      expect({ status, error: body.error }).toEqual({ status: 400, error: 'MALFORMED_DOC' });
+      expect(Date.now() - startedAt).toBeLessThan(2_000);
+    });
+  });
+
+  describe('anexos no turno', () => {
+    const env = makeEnv();
+    const PNG = btoa(String.fromCharCode(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0));
+    const JPEG = btoa(String.fromCharCode(0xff, 0xd8, 0xff, 0xe0, 0, 0x10, 0x4a, 0x46));
+    const OGG = btoa('OggS\0\x02' + '\0'.repeat(20));
+    const send = async (path: string, body: any) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request(`http://worker${path}`, { method: 'POST', headers: { 'content-type': 'application/json', ...AUTH }, body: JSON.stringify(body) }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return res;
+    };
+    // Chamadas de visão têm conteúdo em partes; as do agente, texto
+    const visionCalls = () => openaiCreateMock.mock.calls.filter((c) => Array.isArray(c[0].messages[0].content));
+    const agentCalls = () => openaiCreateMock.mock.calls.filter((c) => !Array.isArray(c[0].messages[0].content));
+
+    beforeEach(() => {
+      openaiCreateMock.mockImplementation(async (params: any) => ({
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: Array.isArray(params.messages[0].content) ? 'Prato com arroz, feijão e frango grelhado' : 'Ótima refeição! 💪',
+            },
+          },
+        ],
+      }));
+      openaiTranscriptionsMock.mockResolvedValue({ text: 'almocei agora' });
+    });
+
+    it('transcreve e analisa os anexos e responde num único turno', async () => {
+      const res = await send('/', {
+        conversationId: 'c-anexo',
+        newMessage: 'tá dentro da dieta?',
+        attachments: [{ base64: PNG, caption: 'meu almoço' }, { base64: OGG }],
+      });
+      const body: any = await res.json();
+
+      expect(body.response).toBe('Ótima refeição! 💪');
+      expect(visionCalls()).toHaveLength(1);
+      expect(visionCalls()[0][0].messages[0].content[1].image_url.url).toMatch(/^data:image\/png;base64,/);
+      expect(visionCalls()[0][0].messages[0].content[0].text).toContain('Mensagem do usuário: meu almoço');
+      const file = openaiTranscriptionsMock.mock.calls[0][0].file as File;
+      expect([file.name, file.type]).toEqual(['audio.ogg', 'audio/ogg']);
+
+      const expected = '[imagem: meu almoço] Prato com arroz, feijão e frango grelhado\n[áudio] almocei agora\ntá dentro da dieta?';
+      expect(agentCalls()).toHaveLength(1);
+      expect(agentCalls()[0][0].messages.some((m: any) => m.role === 'user' && m.content === expected)).toBe(true);
+      expect(table('conversation_history').filter((r) => r.role === 'user').map((r) => r.content)).toEqual([expected]);
+      expect(body.metadata.attachments).toEqual([
+        { type: 'image', mimeType: 'image/png', ok: true, model: { provider: 'openai', model: 'gpt-4o-mini' } },
+        { type: 'audio', mimeType: 'audio/ogg', ok: true, model: { provider: 'openai', model: 'whisper-1' } },
+      ]);
+    });
+
+    it('aceita só anexos e segue o turno quando um deles não pode ser lido', async () => {
+      fetchSpy.mockResolvedValue(new Response('not found', { status: 404 }));
+
+      const res = await send('/', {
+        conversationId: 'c-anexo',
+        attachments: [
+          { type: 'image', url: 'https://cdn.example/prato.jpg' },
+          { url: 'https://cdn.example/exame.pdf', filename: 'exame.pdf' },
+        ],
+      });
+      const body: any = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(visionCalls()[0][0].messages[0].content[1].image_url.url).toBe('https://cdn.example/prato.jpg');
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(table('conversation_history').find((r) => r.role === 'user')?.content).toBe(
+        '[imagem] Prato com arroz, feijão e frango grelhado\n[anexo exame.pdf] (não foi possível ler o anexo)'
+      );
+      expect(body.metadata.attachments[1]).toEqual({ type: null, mimeType: null, ok: false, error: 'FETCH_FAILED (404)' });
+    });
+
+    it('valida a lista de anexos', async () => {
+      const missing = await send('/', { conversationId: 'c1', attachments: [{ caption: 'sem arquivo' }] });
+      // tipo checado como propriedade própria: nomes herdados de Object não passam
+      const inherited = await send('/', { conversationId: 'c1', attachments: [{ base64: PNG, type: 'constructor' }] });
+      const tooMany = await send('/', { conversationId: 'c1', attachments: Array.from({ length: 6 }, () => ({ base64: PNG })) });
+      const empty = await send('/', { conversationId: 'c1' });
+
+      expect([missing.status, inherited.status, tooMany.status, empty.status]).toEqual([400, 400, 400, 400]);
+      expect(await missing.text()).toContain('attachments[0]');
+      expect(openaiCreateMock).not.toHaveBeenCalled();
+    });
+
+    it('/multimodal/image usa o tipo real da imagem em base64', async () => {
+      await send('/multimodal/image', { imageBase64: JPEG, prompt: 'o que é isso?' });
+
+      expect(visionCalls()[0][0].messages[0].content[1].image_url.url).toBe(`data:image/jpeg;base64,${JPEG}`);
+    });
+
+    it('recusa base64 inválido com 400 nas rotas multimodais e nos anexos', async () => {
+      const image = await send('/multimodal/image', { imageBase64: 'não é base64!' });
+      const audio = await send('/multimodal/audio', { audioBase64: '%%%%' });
+      const attachment = await send('/', { conversationId: 'c1', attachments: [{ type: 'image', base64: 'a*b' }] });
+
+      expect([image.status, audio.status, attachment.status]).toEqual([400, 400, 400]);
+      expect(openaiCreateMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diário alimentar', () => {
+    const env = makeEnv();
+    const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Sao_Paulo' }).format(new Date());
+    const daysAgo = (n: number) => new Date(Date.parse(`${today}T12:00:00Z`) - n * 86_400_000).toISOString().slice(0, 10);
+    const logRow = (local_date: string, calories: number) => ({
+      id: `f-${local_date}-${calories}`,
+      user_id: 'c-nutri',
+      local_date,
+      eaten_at: `${local_date}T15:00:00.000Z`,
+      meal_type: 'almoco',
+      foods: [{ nome: 'marmita', porcao: '1 pote', gramas: 400, calorias: calories, proteinas_g: 30, carboidratos_g: 60, gorduras_g: 15 }],
+      calories,
+      protein_g: 30,
+      carbs_g: 60,
+      fat_g: 15,
+      confidence: 0.7,
+    });
+    const meal = {
+      eh_refeicao: true,
+      descricao: 'Prato de almoço',
+      refeicao: 'almoco',
+      alimentos: [
+        { nome: 'arroz branco', porcao: '4 colheres de sopa', gramas: 100, calorias: 130, proteinas_g: 2.5, carboidratos_g: 28, gorduras_g: 0.3 },
+        { nome: 'frango grelhado', porcao: '1 filé médio', gramas: 120, calorias: 198, proteinas_g: 37, carboidratos_g: 0, gorduras_g: 4.3 },
+      ],
+      totais: { calorias: 999 },
+      confianca: 0.8,
+    };
+    const send = async (path: string, body: any) => {
+      const ctx = createExecutionContext();
+      const res = await worker.fetch(
+        new Request(`http://worker${path}`, { method: 'POST', headers: { 'content-type': 'application/json', ...AUTH }, body: JSON.stringify(body) }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return (await res.json()) as any;
+    };
+    const reply = (message: any) => ({ choices: [{ message: { role: 'assistant', ...message } }] });
+    const call = (name: string, args: any) => ({ id: 't1', type: 'function', function: { name, arguments: JSON.stringify(args) } });
+
+    it('descreve a foto no turno e só registra a refeição quando o agente chama registrar_refeicao_foto', async () => {
+      table('user_profiles').push({ user_id: 'c-nutri', profile: { meta_calorias: 1800 } });
+      table('food_log').push(logRow(today, 450));
+      let agentCall = 0;
+      openaiCreateMock.mockImplementation(async (params: any) => {
+        if (params.response_format?.json_schema?.name === 'analise_refeicao') return reply({ content: JSON.stringify(meal) });
+        if (Array.isArray(params.messages[0].content)) return reply({ content: 'Prato com arroz e frango grelhado' });
+        // a mesma foto pedida duas vezes no mesmo passo vira um só registro
+        if (++agentCall === 1) {
+          const again = { ...call('registrar_refeicao_foto', { foto: 1 }), id: 't2' };
+          return reply({ content: null, tool_calls: [call('registrar_refeicao_foto', { observacao: 'almoço' }), again] });
+        }
+        return reply({ content: 'Boa escolha! 🍽️' });
+      });
+      const toolResults = () =>
+        openaiCreateMock.mock.calls.at(-1)![0].messages.filter((m: any) => m.role === 'tool').map((m: any) => JSON.parse(m.content));
+
+      const body = await send('/', { conversationId: 'c-nutri', attachments: [{ type: 'image', url: 'https://cdn.example/almoco.jpg' }] });
+
+      const logged = table('food_log').filter((r) => r.id !== 'f-' + today + '-450');
+      expect(logged).toHaveLength(1);
+      expect(logged[0]).toMatchObject({
+        user_id: 'c-nutri',
+        local_date: today,
+        meal_type: 'almoco',
+        calories: 328,
+        protein_g: 39.5,
+        carbs_g: 28,
+        fat_g: 4.6,
+        confidence: 0.8,
+        image_url: 'https://cdn.example/almoco.jpg',
+      });
+      expect(table('conversation_history').find((r) => r.role === 'user').content).toBe('[imagem] Prato com arroz e frango grelhado');
+      expect(body.metadata.attachments[0]).toEqual({ type: 'image', mimeType: null, ok: true, model: { provider: 'openai', model: 'gpt-4o-mini' } });
+      const [first, second] = toolResults();
+      expect(first).toMatchObject({ ok: true, id: logged[0].id });
+      expect(second).toEqual(first);
+      expect(first.registro).toContain('Refeição registrada no diário (almoço, confiança 80%):');
+      expect(first.registro).toContain('arroz branco (4 colheres de sopa) 130 kcal; frango grelhado (1 filé médio) 198 kcal.');
+      expect(first.registro).toContain('Total: 328 kcal · P 40 g · C 28 g · G 5 g.');
+      expect(first.registro).toContain('Dia até agora: 778 kcal · P 70 g · C 88 g · G 20 g (meta 1800 kcal).');
+      expect(body.response).toBe('Boa escolha! 🍽️');
+    });
+
+    it('registrar_refeicao_foto recusa turno sem foto e foto que não é comida', async () => {
+      openaiCreateMock.mockImplementation(async (params: any) => {
+        if (params.response_format?.json_schema?.name === 'analise_refeicao') {
+          return reply({ content: JSON.stringify({ eh_refeicao: false, descricao: 'Print do app', alimentos: [], confianca: 0 }) });
+        }
+        if (Array.isArray(params.messages[0].content)) return reply({ content: 'Print do app' });
+        const tools = params.messages.filter((m: any) => m.role === 'tool');
+        return tools.length ? reply({ content: 'ok' }) : reply({ content: null, tool_calls: [call('registrar_refeicao_foto', {})] });
+      });
+      const toolResult = () => JSON.parse(openaiCreateMock.mock.calls.at(-1)![0].messages.filter((m: any) => m.role === 'tool').pop().content);
+
+      await send('/', { conversationId: 'c-nutri', newMessage: 'registra meu almoço' });
+      const noImage = toolResult();
+      await send('/', { conversationId: 'c-nutri', attachments: [{ type: 'image', url: 'https://cdn.example/print.png' }] });
+
+      expect(noImage).toMatchObject({ ok: false, error: { code: 'NO_IMAGE' } });
+      expect(toolResult()).toMatchObject({ ok: false, error: { code: 'NOT_A_MEAL', detail: 'Print do app' } });
+      expect(table('food_log')).toHaveLength(0);
+    });
+
+    it('consulta os totais do dia e da semana contra a meta do perfil', async () => {
+      table('user_profiles').push({ user_id: 'c-nutri', profile: { meta_calorias: 1800, meta_proteinas_g: 120 } });
+      table('food_log').push(logRow(today, 700), logRow(today, 500), logRow(daysAgo(2), 2000), logRow(daysAgo(9), 3000));
+      openaiCreateMock
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('consultar_diario_alimentar', {})] }))
+        .mockResolvedValueOnce(reply({ content: 'Hoje: 1200 kcal.' }))
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('consultar_diario_alimentar', { periodo: 'semana' })] }))
+        .mockResolvedValueOnce(reply({ content: 'Semana ok.' }));
+      const toolResult = (i: number) => JSON.parse(openaiCreateMock.mock.calls[i][0].messages.filter((m: any) => m.role === 'tool').pop().content);
+
+      await send('/', { conversationId: 'c-nutri', newMessage: 'como estou hoje?' });
+      await send('/', { conversationId: 'c-nutri', newMessage: 'e na semana?' });
+
+      expect(toolResult(1)).toMatchObject({
+        periodo: 'dia',
+        data: today,
+        totais: { calorias: 1200, proteinas_g: 60 },
+        meta: { calorias: 1800, proteinas_g: 120 },
+        restante: { calorias: 600, proteinas_g: 60 },
+      });
+      expect(toolResult(1).refeicoes).toHaveLength(2);
+      const week = toolResult(3);
+      expect(week).toMatchObject({
+        periodo: 'semana',
+        de: daysAgo(6),
+        ate: today,
+        dias_com_registro: 2,
+        totais: { calorias: 3200 },
+        media_diaria: { calorias: 1600 },
+        diferenca_media_meta: { calorias: 200 },
+        dias_acima_da_meta_calorias: 1,
+      });
+      expect(week.dias).toHaveLength(7);
+      expect(week.dias[4]).toMatchObject({ data: daysAgo(2), refeicoes: 1, calorias: 2000 });
+    });
+
+    it('/multimodal/image com mode meal devolve a análise estruturada e registra a refeição', async () => {
+      openaiCreateMock.mockResolvedValue(reply({ content: JSON.stringify({ ...meal, refeicao: 'brunch', confianca: 3 }) }));
+
+      const body = await send('/multimodal/image', { mode: 'meal', conversationId: 'c-nutri', imageUrl: 'https://cdn.example/prato.jpg' });
+
+      expect(body.meal).toMatchObject({ eh_refeicao: true, refeicao: null, confianca: 1, totais: { calorias: 328 } });
+      expect(body.foodLog).toMatchObject({ id: table('food_log')[0].id, date: today });
+      expect(body.result).toContain('Refeição registrada no diário');
+      expect(table('conversation_history').map((r) => r.role)).toEqual(['user', 'assistant']);
+    });
+
+    it('não registra fotos que não são de comida', async () => {
+      openaiCreateMock.mockResolvedValue(reply({ content: JSON.stringify({ eh_refeicao: false, descricao: 'Print do app', alimentos: [], confianca: 0 }) }));
+
+      const body = await send('/multimodal/image', { mode: 'meal', conversationId: 'c-nutri', imageUrl: 'https://cdn.example/print.png' });
+
+      expect(body).toMatchObject({ ok: true, result: 'Print do app', foodLog: null });
+      expect(table('food_log')).toHaveLength(0);
+    });
+  });
+
+  describe('treinos e progresso', () => {
+    const env = makeEnv();
+    const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Sao_Paulo' }).format(new Date());
+    const shift = (date: string, days: number) => new Date(Date.parse(`${date}T12:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+    const monday = (date: string) => shift(date, -((new Date(`${date}T12:00:00Z`).getUTCDay() + 6) % 7));
+    const workout = (user_id: string, local_date: string, duration_min: number, effort: number | null = null) => ({
+      id: `${user_id}-${local_date}-${duration_min}`,
+      user_id,
+      local_date,
+      logged_at: `${local_date}T20:00:00.000Z`,
+      program: 'HIIT',
+      duration_min,
+      effort,
+    });
+    const reply = (message: any) => ({ choices: [{ message: { role: 'assistant', ...message } }] });
+    const call = (id: string, name: string, args: any) => ({ id, type: 'function', function: { name, arguments: JSON.stringify(args) } });
+    const toolResult = (i: number) => JSON.parse(openaiCreateMock.mock.calls[i][0].messages.filter((m: any) => m.role === 'tool').pop().content);
+    const turn = async (newMessage: string) => {
+      const ctx = createExecutionContext();
+      await worker.fetch(
+        new Request('http://worker', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', ...AUTH },
+          body: JSON.stringify({ conversationId: 'c-treino', newMessage }),
+        }),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+    };
+
+    it('registra duas sessões do mesmo programa no mesmo dia', async () => {
+      let calls = 0;
+      openaiCreateMock.mockImplementation(async (params: any) =>
+        params.messages.some((m: any) => m.role === 'tool')
+          ? reply({ content: 'Treino anotado! 🔥' })
+          : reply({
+              content: null,
+              tool_calls: [call(`t${++calls}`, 'registrar_treino', { programa: 'HIIT 20', duracao_min: calls === 1 ? 25 : 20, esforco: 8 })],
+            })
+      );
+
+      await turn('fiz o HIIT 20 de manhã, 25 min, bem puxado');
+      await turn('e fiz o HIIT 20 de novo à noite, 20 min');
+
+      expect(table('workout_log')).toEqual([
+        expect.objectContaining({ id: 'c-treino:t1', user_id: 'c-treino', local_date: today, duration_min: 25, effort: 8 }),
+        expect.objectContaining({ id: 'c-treino:t2', user_id: 'c-treino', local_date: today, duration_min: 20, effort: 8 }),
+      ]);
+      expect(toolResult(3)).toMatchObject({ ok: true, semana: { treinos: 2, minutos: 45, carga: 360 }, sequencia_dias: 1 });
+    });
+
+    it('registra medidas com a variação desde a anterior e recusa datas futuras', async () => {
+      table('body_measurements').push({ id: 'm0', user_id: 'c-treino', local_date: shift(today, -10), measured_at: '2026-01-01T00:00:00Z', weight_kg: 72.4 });
+      openaiCreateMock
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('t1', 'registrar_medidas', { peso_kg: 71.6, cintura_cm: 80 })] }))
+        .mockResolvedValueOnce(reply({ content: 'Anotado!' }))
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('t2', 'registrar_medidas', { peso_kg: 70, data: shift(today, 2) })] }))
+        .mockResolvedValueOnce(reply({ content: 'Data inválida.' }));
+
+      await turn('pesei 71,6 e cintura 80');
+      await turn('vou pesar 70 depois de amanhã');
+
+      expect(toolResult(1)).toEqual({ ok: true, data: today, medidas: { peso_kg: 71.6, cintura_cm: 80 }, variacao: { peso_kg: -0.8 } });
+      expect(toolResult(3)).toMatchObject({ ok: false, error: { code: 'INVALID_DATE' } });
+      expect(table('body_measurements')).toHaveLength(2);
+    });
+
+    it('junta medidas do mesmo dia numa linha só', async () => {
+      openaiCreateMock
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('t1', 'registrar_medidas', { peso_kg: 71.6 })] }))
+        .mockResolvedValueOnce(reply({ content: 'Anotado!' }))
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('t2', 'registrar_medidas', { peso_kg: 71.4, cintura_cm: 80 })] }))
+        .mockResolvedValueOnce(reply({ content: 'Atualizado!' }));
+
+      await turn('pesei 71,6');
+      await turn('pesei de novo: 71,4, cintura 80');
+
+      expect(table('body_measurements')).toEqual([
+        expect.objectContaining({ id: `c-treino:${today}`, local_date: today, weight_kg: 71.4, waist_cm: 80 }),
+      ]);
+    });
+
+    it('consulta sequências, volume semanal, tendência e medidas', async () => {
+      const week = monday(today);
+      table('workout_log').push(
+        workout('c-treino', shift(week, -21), 60, 6),
+        workout('c-treino', shift(week, -14), 60, 6),
+        workout('c-treino', shift(week, -7), 45, 8),
+        workout('c-treino', shift(week, -7), 45),
+        workout('c-treino', today, 30, 7)
+      );
+      table('body_measurements').push(
+        { id: 'm1', user_id: 'c-treino', local_date: shift(week, -14), measured_at: '2026-01-01T00:00:00Z', weight_kg: 72, waist_cm: 82 },
+        { id: 'm2', user_id: 'c-treino', local_date: today, measured_at: '2026-02-01T00:00:00Z', weight_kg: 70.5 }
+      );
+      openaiCreateMock
+        .mockResolvedValueOnce(reply({ content: null, tool_calls: [call('t1', 'consultar_progresso_treino', {})] }))
+        .mockResolvedValueOnce(reply({ content: 'Você está evoluindo!' }));
+
+      await turn('como está meu progresso?');
+
+      const progress = toolResult(1);
+      expect(progress).toMatchObject({
+        hoje: today,
+        sequencia_dias: 1,
+        sequencia_semanas: 4,
+        tendencia: { variacao_pct: 50, direcao: 'subindo' },
+        medidas: { desde: shift(week, -14), atual: { peso_kg: 70.5, cintura_cm: 82 }, variacao: { peso_kg: -1.5 } },
+      });
+      expect(progress.semanas).toEqual([
+        { inicio: shift(week, -21), treinos: 1, minutos: 60, carga: 360, esforco_medio: 6 },
+        { inicio: shift(week, -14), treinos: 1, minutos: 60, carga: 360, esforco_medio: 6 },
+        { inicio: shift(week, -7), treinos: 2, minutos: 90, carga: 360, esforco_medio: 8 },
+        { inicio: week, treinos: 1, minutos: 30, carga: 210, esforco_medio: 7 },
+      ]);
+    });
+
+    it('envia o resumo semanal no domingo à noite, uma vez por semana', async () => {
+      const sent: any[] = [];
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': captureN8n(sent) }));
+      table('workout_log').push(workout('u-ana', '2026-10-07', 40), workout('u-ana', '2026-10-13', 45, 7), workout('u-ana', '2026-10-15', 30, 8));
+      table('body_measurements').push(
+        { id: 'm1', user_id: 'u-ana', local_date: '2026-10-01', measured_at: '2026-10-01T10:00:00Z', weight_kg: 72 },
+        { id: 'm2', user_id: 'u-ana', local_date: '2026-10-17', measured_at: '2026-10-17T10:00:00Z', weight_kg: 71.2 }
+      );
+      table('user_profiles').push({ user_id: 'u-ana', profile: { nome: 'Ana' } });
+      const seen = '2026-10-18T12:00:00.000Z';
+      table('user_activity').push({ user_id: 'u-ana', phone: '+5511999990000', last_seen_at: seen, last_app_access_at: seen });
+      const runCron = async (scheduledTime: number) => {
+        const ctx = createExecutionContext();
+        await worker.scheduled(createScheduledController({ scheduledTime, cron: '0 * * * *' }), env, ctx);
+        await waitOnExecutionContext(ctx);
+      };
+
+      await runCron(Date.parse('2026-10-18T20:00:00Z')); // domingo, 17h em São Paulo: cedo demais
+      await runCron(Date.parse('2026-10-18T22:00:00Z'));
+      await runCron(Date.parse('2026-10-18T23:00:00Z'));
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0]).toMatchObject({ to: '+5511999990000', message_type: 'text' });
+      expect(sent[0].payload.text).toBe(
+        [
+          '*Seu resumo da semana, Ana* 💪',
+          '• Treinos: 2 (75 min) — semana anterior: 1 (40 min)',
+          '• Esforço médio: 7,5/10',
+          '• Sequência: 2 semanas seguidas treinando 🔥',
+          '• Peso: 71,2 kg (-0,8 kg desde 01/10/2026)',
+          'Bora manter o ritmo na próxima semana!',
+        ].join('\n')
+      );
+      expect(table('progress_summaries')).toEqual([expect.objectContaining({ user_id: 'u-ana', week_start: '2026-10-12', status: 'sent' })]);
+    });
+
+    it('não envia o resumo semanal quando o banco falha ao marcá-lo', async () => {
+      const sent: any[] = [];
+      fetchSpy.mockImplementation(fetchRouter({ 'n8n.example': captureN8n(sent) }));
+      table('workout_log').push(workout('u-ana', '2026-10-15', 30));
+      const seen = '2026-10-18T12:00:00.000Z';
+      table('user_activity').push({ user_id: 'u-ana', phone: '+5511999990000', last_seen_at: seen, last_app_access_at: seen });
+      dbErrors.progress_summaries = { code: '57P01', message: 'terminating connection' };
+
+      const ctx = createExecutionContext();
+      await worker.scheduled(createScheduledController({ scheduledTime: Date.parse('2026-10-18T22:00:00Z'), cron: '0 * * * *' }), env, ctx);
+      await waitOnExecutionContext(ctx);
+
+      expect(sent).toHaveLength(0);
+    });
+  });
 });